@@ -1,45 +1,177 @@
 #!/usr/bin/env node
 
-import {RenderPDF} from "./index";
+import {
+    NetworkPolicy,
+    OutputFormat,
+    PdfAConformance,
+    PdfEncryption,
+    PdfMetadata,
+    PdfSignature,
+    ReadinessStrategy,
+    RenderJob,
+    RenderJobError,
+    RenderJobResult,
+    RenderPDF,
+    RetryPolicy,
+    RetryableFailure,
+    createRenderServer,
+} from "./index";
+import {FlagValues, dropReplacedFlags, findConfigFile, mergeFlags, readConfigFile, readEnv} from "./config";
+import {readJobManifest} from "./manifest";
+import {PaperFormat, paperFormatSize, parseDimension} from "./paper";
+import fs from "fs";
 import minimist from "minimist";
 
+const stringFlags = [
+    'url',
+    'html-file',
+    'base-url',
+    'pdf',
+    'jobs',
+    'chrome-binary',
+    'chrome-option',
+    'remote-host',
+    'remote-port',
+    'window-size',
+    'paper-format',
+    'paper-width',
+    'paper-height',
+    'margin',
+    'margin-top',
+    'margin-bottom',
+    'margin-left',
+    'margin-right',
+    'page-ranges',
+    'scale',
+    'header-template',
+    'footer-template',
+    'header-template-file',
+    'footer-template-file',
+    'template-var',
+    'js-time-budget',
+    'animation-time-budget',
+    'trace-filename',
+    'concurrency',
+    'report',
+    'wait-for-event',
+    'wait-for-selector',
+    'wait-for-expression',
+    'wait-for-network-idle',
+    'wait-timeout',
+    'render-timeout',
+    'format',
+    'clip',
+    'quality',
+    'device-scale-factor',
+    'viewport',
+    'emulate-media',
+    'timezone',
+    'locale',
+    'color-scheme',
+    'reduced-motion',
+    'user-agent',
+    'header',
+    'cookie',
+    'cookie-jar',
+    'storage-state',
+    'export-storage-state',
+    'basic-auth',
+    'block-url',
+    'allow-host',
+    'network-policy',
+    'network-allow',
+    'asset-root',
+    'merge-to',
+    'title',
+    'author',
+    'subject',
+    'keywords',
+    'user-password',
+    'owner-password',
+    'permissions',
+    'sign-p12',
+    'sign-key',
+    'sign-cert',
+    'sign-passphrase',
+    'sign-reason',
+    'sign-location',
+    'lang',
+    'pdfa',
+    'frozen-time',
+    'max-attempts',
+    'retry-backoff',
+    'retry-on',
+    'fail-on-request-url',
+    'min-pages',
+    'max-pages',
+    'inject-script',
+    'inject-css',
+    'evaluate',
+    'port',
+    'host',
+];
+
+const booleanFlags = [
+    'no-margins',
+    'no-template-styles',
+    'include-background',
+    'landscape',
+    'display-header-footer',
+    'prefer-css-page-size',
+    'log-network-requests',
+    'strict',
+    'wait-for-fonts',
+    'full-page',
+    'mobile',
+    'allow-private-network',
+    'outline',
+    'tagged',
+    'deterministic',
+    'isolation',
+    'fail-on-page-error',
+    'fail-on-console-error',
+    'fail-on-request-error',
+];
+
+// flags given on the command line take precedence over RENDER_PDF_* environment variables, which take precedence over
+// the config file
+const cliArgv = minimist(process.argv.slice(2), {string: [...stringFlags, 'config'], boolean: [...booleanFlags, 'print-config']});
+let configFlags: FlagValues = {};
+let envFlags: FlagValues = {};
+try {
+    let configFile: string | undefined;
+    if (typeof cliArgv['config'] === 'string') {
+        configFile = cliArgv['config'];
+    } else if (process.env.RENDER_PDF_CONFIG) {
+        configFile = process.env.RENDER_PDF_CONFIG;
+    } else if (cliArgv['config'] !== false) {
+        configFile = findConfigFile();
+    }
+    if (configFile) {
+        configFlags = readConfigFile(configFile, stringFlags, booleanFlags);
+    }
+    envFlags = readEnv(process.env, stringFlags, booleanFlags);
+} catch (e) {
+    console.error(`ERROR: ${e instanceof Error ? e.message : e}\n`);
+    process.exit(1);
+}
+
 const argv = minimist(process.argv.slice(2), {
-    string: [
-        'url',
-        'pdf',
-        'chrome-binary',
-        'chrome-option',
-        'remote-host',
-        'remote-port',
-        'window-size',
-        'paper-width',
-        'paper-height',
-        'page-ranges',
-        'scale',
-        'header-template',
-        'footer-template',
-        'js-time-budget',
-        'animation-time-budget',
-        'trace-filename',
-    ],
-    boolean: [
-        'no-margins',
-        'include-background',
-        'landscape',
-        'display-header-footer',
-        'prefer-css-page-size',
-        'log-network-requests',
-    ]
+    string: [...stringFlags, 'config'],
+    boolean: [...booleanFlags, 'print-config'],
+    default: mergeFlags(configFlags, envFlags),
 });
+// minimist fills in the defaults flag by flag, a paper format on the command line has to replace a paper size from the
+// environment or config explicitly
+dropReplacedFlags(argv, cliArgv);
 
-if (argv['help'] || !argv['pdf'] || !argv['url']) {
+const serve = argv._[0] === 'serve';
+
+if (argv['help'] || (!serve && !argv['jobs'] && !argv['print-config'] && ((!argv['pdf'] && !argv['merge-to']) || (!argv['url'] && !argv['html-file'])))) {
     printHelp();
     process.exit(2);
 }
 
-const urls = typeof argv['url'] === 'string' ? [argv['url']] : argv['url'];
-const pdfs = typeof argv['pdf'] === 'string' ? [argv['pdf']] : argv['pdf'];
-
 let windowSize: [number, number] | undefined;
 if (typeof argv['window-size'] === 'string') {
     const match = argv['window-size'].match(/^([0-9]+)[,x*]([0-9]+)$/);
@@ -51,10 +183,9 @@ if (typeof argv['window-size'] === 'string') {
     windowSize = [parseInt(match[1], 10), parseInt(match[2], 10)];
 }
 
-if (pdfs.length !== urls.length) {
-    console.error('ERROR: Unpaired --url or --pdf found\n');
-    printHelp();
-    process.exit(1);
+let baseUrl: string | undefined;
+if (typeof argv['base-url'] === 'string') {
+    baseUrl = argv['base-url'];
 }
 
 let chromeBinary = undefined;
@@ -79,15 +210,25 @@ if (typeof argv['remote-port'] === 'string') {
     remotePort = parseInt(argv['remote-port'], 10);
 }
 
-let paperWidth = undefined;
-if (typeof argv['paper-width'] === 'string') {
-    paperWidth = argv['paper-width'];
+let paperFormat: PaperFormat | undefined;
+if (typeof argv['paper-format'] === 'string') {
+    if (typeof argv['paper-width'] === 'string' || typeof argv['paper-height'] === 'string') {
+        console.error('ERROR: --paper-format cannot be combined with --paper-width or --paper-height\n');
+        printHelp();
+        process.exit(1);
+    }
+    validate(() => paperFormatSize(argv['paper-format']));
+    paperFormat = argv['paper-format'] as PaperFormat;
 }
 
-let paperHeight = undefined;
-if (typeof argv['paper-height'] === 'string') {
-    paperHeight = argv['paper-height'];
-}
+const paperWidth = dimensionFlag('paper-width');
+const paperHeight = dimensionFlag('paper-height');
+
+// --margin sets every side, the per-side flags take precedence
+const marginTop = dimensionFlag('margin-top') ?? dimensionFlag('margin');
+const marginBottom = dimensionFlag('margin-bottom') ?? dimensionFlag('margin');
+const marginLeft = dimensionFlag('margin-left') ?? dimensionFlag('margin');
+const marginRight = dimensionFlag('margin-right') ?? dimensionFlag('margin');
 
 let preferCSSPageSize = undefined;
 if (argv['prefer-css-page-size']) {
@@ -128,14 +269,23 @@ if (argv['display-header-footer']) {
     displayHeaderFooter = true;
 }
 
-let headerTemplate;
-if(typeof argv['header-template'] === 'string') {
-    headerTemplate = argv['header-template'];
+const [headerTemplate, headerTemplateFile] = templateFlags('header');
+const [footerTemplate, footerTemplateFile] = templateFlags('footer');
+
+const templateVariables: Record<string, string> = {};
+for (const variable of toArray(argv['template-var'])) {
+    const separator = variable.indexOf('=');
+    if (separator <= 0) {
+        console.error(`ERROR: --template-var must be in "name=value" format, got "${variable}"\n`);
+        printHelp();
+        process.exit(1);
+    }
+    templateVariables[variable.slice(0, separator)] = variable.slice(separator + 1);
 }
 
-let footerTemplate;
-if(typeof argv['footer-template'] === 'string') {
-    footerTemplate = argv['footer-template'];
+let templateStyles;
+if (argv['template-styles'] !== undefined) {
+    templateStyles = !!argv['template-styles'];
 }
 
 let jsTimeBudget;
@@ -166,86 +316,870 @@ if (argv['log-network-requests']) {
     logNetworkRequests = true;
 }
 
-(async () => {
-    try {
-        const jobs = generateJobList(urls, pdfs);
-        await RenderPDF.generateMultiplePdf(jobs, {
-            printLogs: true,
-            landscape,
-            noMargins,
-            includeBackground,
-            chromeBinary,
-            chromeOptions,
-            remoteHost,
-            remotePort,
-            windowSize,
-            paperWidth,
-            paperHeight,
-            preferCSSPageSize,
-            pageRanges,
-            scale,
-            displayHeaderFooter,
-            headerTemplate,
-            footerTemplate,
-            jsTimeBudget,
-            animationTimeBudget,
-            traceFilename,
-            logNetworkRequests,
-        });
-    } catch (e) {
-        console.error(e);
+let concurrency;
+if (typeof argv['concurrency'] === 'string') {
+    concurrency = parseInt(argv['concurrency'], 10);
+    if (isNaN(concurrency) || concurrency < 1) {
+        console.error('--concurrency must be a positive number');
+        process.exit(1);
+    }
+}
+
+let strict;
+if (argv['strict']) {
+    strict = true;
+}
+
+let report: string | undefined;
+if (typeof argv['report'] === 'string') {
+    report = argv['report'];
+}
+
+const waitFor: ReadinessStrategy[] = [];
+for (const name of toArray(argv['wait-for-event'])) {
+    waitFor.push({type: 'event', name});
+}
+for (const selector of toArray(argv['wait-for-selector'])) {
+    waitFor.push({type: 'selector', selector});
+}
+for (const expression of toArray(argv['wait-for-expression'])) {
+    waitFor.push({type: 'expression', expression});
+}
+if (typeof argv['wait-for-network-idle'] === 'string') {
+    const idleTime = Number(argv['wait-for-network-idle']);
+    if (isNaN(idleTime)) {
+        console.error('--wait-for-network-idle must be a number');
+        process.exit(1);
+    }
+    waitFor.push({type: 'networkIdle', idleTime});
+}
+if (argv['wait-for-fonts']) {
+    waitFor.push({type: 'fonts'});
+}
+
+let waitTimeout;
+if (typeof argv['wait-timeout'] === 'string') {
+    waitTimeout = Number(argv['wait-timeout']);
+    if (isNaN(waitTimeout)) {
+        console.error('--wait-timeout must be a number');
+        process.exit(1);
+    }
+}
+
+let renderTimeout;
+if (typeof argv['render-timeout'] === 'string') {
+    renderTimeout = Number(argv['render-timeout']);
+    if (isNaN(renderTimeout)) {
+        console.error('--render-timeout must be a number');
+        process.exit(1);
+    }
+}
+
+let format: OutputFormat | undefined;
+if (typeof argv['format'] === 'string') {
+    if (!['pdf', 'png', 'jpeg', 'webp'].includes(argv['format'])) {
+        console.error('--format must be one of pdf, png, jpeg or webp');
+        process.exit(1);
+    }
+    format = argv['format'] as OutputFormat;
+}
+
+let fullPage;
+if (argv['full-page']) {
+    fullPage = true;
+}
+
+let clip;
+if (typeof argv['clip'] === 'string') {
+    const values = argv['clip'].split(',').map(Number);
+    if (values.length !== 4 || values.some(isNaN)) {
+        console.error('ERROR: --clip must be x,y,width,height\n');
+        printHelp();
+        process.exit(1);
+    }
+    clip = {x: values[0], y: values[1], width: values[2], height: values[3]};
+}
+
+let quality;
+if (typeof argv['quality'] === 'string') {
+    quality = Number(argv['quality']);
+    if (isNaN(quality)) {
+        console.error('--quality must be a number');
+        process.exit(1);
+    }
+}
+
+let deviceScaleFactor;
+if (typeof argv['device-scale-factor'] === 'string') {
+    deviceScaleFactor = Number(argv['device-scale-factor']);
+    if (isNaN(deviceScaleFactor)) {
+        console.error('--device-scale-factor must be a number');
+        process.exit(1);
+    }
+}
+
+let viewport;
+if (typeof argv['viewport'] === 'string') {
+    const match = argv['viewport'].match(/^([0-9]+)[,x*]([0-9]+)$/);
+    if (match === null) {
+        console.error('ERROR: --viewport must be width(,x*)height, e.g. 1280x800\n');
+        printHelp();
+        process.exit(1);
+    }
+    viewport = {width: parseInt(match[1], 10), height: parseInt(match[2], 10), mobile: !!argv['mobile']};
+}
+
+let emulateMedia: 'print' | 'screen' | undefined;
+if (typeof argv['emulate-media'] === 'string') {
+    if (!['print', 'screen'].includes(argv['emulate-media'])) {
+        console.error('--emulate-media must be print or screen');
+        process.exit(1);
+    }
+    emulateMedia = argv['emulate-media'] as 'print' | 'screen';
+}
+
+let timezoneId;
+if (typeof argv['timezone'] === 'string') {
+    timezoneId = argv['timezone'];
+}
+
+let locale;
+if (typeof argv['locale'] === 'string') {
+    locale = argv['locale'];
+}
+
+let prefersColorScheme: 'light' | 'dark' | 'no-preference' | undefined;
+if (typeof argv['color-scheme'] === 'string') {
+    if (!['light', 'dark', 'no-preference'].includes(argv['color-scheme'])) {
+        console.error('--color-scheme must be one of light, dark or no-preference');
+        process.exit(1);
+    }
+    prefersColorScheme = argv['color-scheme'] as 'light' | 'dark' | 'no-preference';
+}
+
+let prefersReducedMotion: 'reduce' | 'no-preference' | undefined;
+if (typeof argv['reduced-motion'] === 'string') {
+    if (!['reduce', 'no-preference'].includes(argv['reduced-motion'])) {
+        console.error('--reduced-motion must be reduce or no-preference');
+        process.exit(1);
+    }
+    prefersReducedMotion = argv['reduced-motion'] as 'reduce' | 'no-preference';
+}
+
+let userAgent;
+if (typeof argv['user-agent'] === 'string') {
+    userAgent = argv['user-agent'];
+}
+
+const extraHeaders: Record<string, string> = {};
+for (const header of toArray(argv['header'])) {
+    const separator = header.indexOf(':');
+    if (separator <= 0) {
+        console.error(`ERROR: --header must be in "Name: value" format, got "${header}"\n`);
+        printHelp();
+        process.exit(1);
+    }
+    extraHeaders[header.slice(0, separator).trim()] = header.slice(separator + 1).trim();
+}
+
+const cookies = [];
+for (const cookie of toArray(argv['cookie'])) {
+    const separator = cookie.indexOf('=');
+    if (separator <= 0) {
+        console.error(`ERROR: --cookie must be in "name=value" format, got "${cookie}"\n`);
+        printHelp();
+        process.exit(1);
+    }
+    cookies.push({name: cookie.slice(0, separator), value: cookie.slice(separator + 1)});
+}
+
+let cookieJar;
+if (typeof argv['cookie-jar'] === 'string') {
+    cookieJar = argv['cookie-jar'];
+}
+
+let isolation;
+if (argv['isolation']) {
+    isolation = true;
+}
+
+let storageState;
+if (typeof argv['storage-state'] === 'string') {
+    storageState = argv['storage-state'];
+}
+
+let exportStorageState;
+if (typeof argv['export-storage-state'] === 'string') {
+    exportStorageState = argv['export-storage-state'];
+}
+
+let basicAuth;
+if (typeof argv['basic-auth'] === 'string') {
+    const separator = argv['basic-auth'].indexOf(':');
+    if (separator <= 0) {
+        console.error('ERROR: --basic-auth must be in "username:password" format\n');
+        printHelp();
+        process.exit(1);
+    }
+    basicAuth = {
+        username: argv['basic-auth'].slice(0, separator),
+        password: argv['basic-auth'].slice(separator + 1),
+    };
+}
+
+const blockUrls = toArray(argv['block-url']);
+const allowHosts = toArray(argv['allow-host']);
+
+let networkPolicy: NetworkPolicy | undefined;
+if (typeof argv['network-policy'] === 'string') {
+    if (!['offline', 'same-origin', 'allowlist'].includes(argv['network-policy'])) {
+        console.error('--network-policy must be one of offline, same-origin or allowlist');
+        process.exit(1);
+    }
+    networkPolicy = {
+        mode: argv['network-policy'] as NetworkPolicy['mode'],
+        allow: toArray(argv['network-allow']),
+        assetRoot: typeof argv['asset-root'] === 'string' ? argv['asset-root'] : undefined,
+        allowPrivateNetwork: !!argv['allow-private-network'],
+    };
+}
+
+let mergeTo: string | undefined;
+if (typeof argv['merge-to'] === 'string') {
+    mergeTo = argv['merge-to'];
+}
+
+let metadata: PdfMetadata | undefined;
+if (['title', 'author', 'subject', 'keywords'].some((key) => typeof argv[key] === 'string')) {
+    metadata = {
+        title: typeof argv['title'] === 'string' ? argv['title'] : undefined,
+        author: typeof argv['author'] === 'string' ? argv['author'] : undefined,
+        subject: typeof argv['subject'] === 'string' ? argv['subject'] : undefined,
+        keywords: typeof argv['keywords'] === 'string'
+            ? argv['keywords'].split(',').map((keyword: string) => keyword.trim())
+            : undefined,
+    };
+}
+
+let encryption: PdfEncryption | undefined;
+if (['user-password', 'owner-password', 'permissions'].some((flag) => typeof argv[flag] === 'string')) {
+    encryption = {
+        userPassword: typeof argv['user-password'] === 'string' ? argv['user-password'] : undefined,
+        ownerPassword: typeof argv['owner-password'] === 'string' ? argv['owner-password'] : undefined,
+    };
+    if (typeof argv['permissions'] === 'string') {
+        const allowed = argv['permissions'] === 'none' ? [] : argv['permissions'].split(',').map((permission: string) => permission.trim());
+        if (allowed.some((permission: string) => !['print', 'copy', 'modify'].includes(permission))) {
+            console.error('--permissions must be none or a comma separated list of print, copy and modify');
+            process.exit(1);
+        }
+        encryption.permissions = {
+            print: allowed.includes('print'),
+            copy: allowed.includes('copy'),
+            modify: allowed.includes('modify'),
+        };
+    }
+}
+
+let signature: PdfSignature | undefined;
+if (typeof argv['sign-p12'] === 'string' || typeof argv['sign-key'] === 'string' || typeof argv['sign-cert'] === 'string') {
+    if (typeof argv['sign-p12'] === 'string' && (typeof argv['sign-key'] === 'string' || typeof argv['sign-cert'] === 'string')) {
+        console.error('ERROR: --sign-p12 cannot be combined with --sign-key or --sign-cert\n');
+        printHelp();
+        process.exit(1);
+    }
+    if (typeof argv['sign-p12'] !== 'string' && (typeof argv['sign-key'] !== 'string' || typeof argv['sign-cert'] !== 'string')) {
+        console.error('ERROR: --sign-key and --sign-cert have to be used together\n');
+        printHelp();
+        process.exit(1);
+    }
+    signature = {
+        p12: typeof argv['sign-p12'] === 'string' ? argv['sign-p12'] : undefined,
+        key: typeof argv['sign-key'] === 'string' ? argv['sign-key'] : undefined,
+        cert: typeof argv['sign-cert'] === 'string' ? argv['sign-cert'] : undefined,
+        passphrase: typeof argv['sign-passphrase'] === 'string' ? argv['sign-passphrase'] : undefined,
+        reason: typeof argv['sign-reason'] === 'string' ? argv['sign-reason'] : undefined,
+        location: typeof argv['sign-location'] === 'string' ? argv['sign-location'] : undefined,
+    };
+}
+
+let outline;
+if (argv['outline']) {
+    outline = true;
+}
+
+let tagged;
+if (argv['tagged']) {
+    tagged = true;
+}
+
+let lang;
+if (typeof argv['lang'] === 'string') {
+    lang = argv['lang'];
+}
+
+let pdfa: PdfAConformance | undefined;
+if (typeof argv['pdfa'] === 'string') {
+    if (!['PDF/A-2b', 'PDF/A-2u', 'PDF/A-3b', 'PDF/A-3u'].includes(argv['pdfa'])) {
+        console.error('--pdfa must be PDF/A-2b, PDF/A-2u, PDF/A-3b or PDF/A-3u');
+        process.exit(1);
+    }
+    if (encryption) {
+        console.error('--pdfa cannot be combined with --user-password, --owner-password or --permissions');
+        process.exit(1);
+    }
+    pdfa = argv['pdfa'] as PdfAConformance;
+}
+
+const evaluateOnNewDocument = toArray(argv['inject-script']).map(readSource);
+const injectCss = toArray(argv['inject-css']).map(readSource);
+const evaluate = toArray(argv['evaluate']).map(readSource);
+
+let retry: RetryPolicy | undefined;
+if (['max-attempts', 'retry-backoff', 'retry-on'].some((flag) => typeof argv[flag] === 'string')) {
+    retry = {};
+    if (typeof argv['max-attempts'] === 'string') {
+        retry.maxAttempts = parseInt(argv['max-attempts'], 10);
+        if (isNaN(retry.maxAttempts) || retry.maxAttempts < 1) {
+            console.error('--max-attempts must be a positive number');
+            process.exit(1);
+        }
+    }
+    if (typeof argv['retry-backoff'] === 'string') {
+        retry.backoff = Number(argv['retry-backoff']);
+        if (isNaN(retry.backoff)) {
+            console.error('--retry-backoff must be a number');
+            process.exit(1);
+        }
+    }
+    if (typeof argv['retry-on'] === 'string') {
+        retry.retryOn = argv['retry-on'].split(',').map((kind: string) => kind.trim()) as RetryableFailure[];
+        if (retry.retryOn.some((kind) => !['disconnect', 'timeout', 'navigation'].includes(kind))) {
+            console.error('--retry-on must be a comma separated list of disconnect, timeout and navigation');
+            process.exit(1);
+        }
+    }
+}
+
+let failOnPageError;
+if (argv['fail-on-page-error']) {
+    failOnPageError = true;
+}
+
+let failOnConsoleError;
+if (argv['fail-on-console-error']) {
+    failOnConsoleError = true;
+}
+
+let failOnRequestError: boolean | string[] | undefined;
+if (argv['fail-on-request-error']) {
+    failOnRequestError = true;
+}
+if (typeof argv['fail-on-request-url'] !== 'undefined') {
+    failOnRequestError = toArray(argv['fail-on-request-url']);
+}
+
+let minPages: number | undefined;
+if (typeof argv['min-pages'] === 'string') {
+    minPages = parseInt(argv['min-pages'], 10);
+    if (isNaN(minPages) || minPages < 1) {
+        console.error('--min-pages must be a positive number');
+        process.exit(1);
+    }
+}
+
+let maxPages: number | undefined;
+if (typeof argv['max-pages'] === 'string') {
+    maxPages = parseInt(argv['max-pages'], 10);
+    if (isNaN(maxPages) || maxPages < 1) {
+        console.error('--max-pages must be a positive number');
+        process.exit(1);
+    }
+}
+
+if (minPages !== undefined && maxPages !== undefined && minPages > maxPages) {
+    console.error('--min-pages cannot be greater than --max-pages');
+    process.exit(1);
+}
+
+let deterministic;
+if (argv['deterministic']) {
+    deterministic = true;
+}
+
+let frozenTime: string | number | undefined;
+if (typeof argv['frozen-time'] === 'string') {
+    // a plain number is a timestamp in ms, anything else a date string
+    frozenTime = /^\d+$/.test(argv['frozen-time']) ? Number(argv['frozen-time']) : argv['frozen-time'];
+    if (isNaN(new Date(frozenTime).getTime())) {
+        console.error('--frozen-time must be an ISO 8601 date or a timestamp in ms');
         process.exit(1);
     }
+}
+
+let port = 8080;
+if (typeof argv['port'] === 'string') {
+    port = parseInt(argv['port'], 10);
+    if (isNaN(port)) {
+        console.error('--port must be a number');
+        process.exit(1);
+    }
+}
+
+let host: string | undefined;
+if (typeof argv['host'] === 'string') {
+    host = argv['host'];
+}
+
+const options = {
+    printLogs: true,
+    landscape,
+    noMargins,
+    marginTop,
+    marginBottom,
+    marginLeft,
+    marginRight,
+    includeBackground,
+    chromeBinary,
+    chromeOptions,
+    remoteHost,
+    remotePort,
+    windowSize,
+    paperFormat,
+    paperWidth,
+    paperHeight,
+    preferCSSPageSize,
+    pageRanges,
+    scale,
+    displayHeaderFooter,
+    headerTemplate,
+    footerTemplate,
+    headerTemplateFile,
+    footerTemplateFile,
+    templateVariables,
+    templateStyles,
+    jsTimeBudget,
+    animationTimeBudget,
+    traceFilename,
+    logNetworkRequests,
+    concurrency,
+    strict,
+    waitFor,
+    waitTimeout,
+    renderTimeout,
+    format,
+    fullPage,
+    clip,
+    quality,
+    deviceScaleFactor,
+    viewport,
+    emulateMedia,
+    timezoneId,
+    locale,
+    prefersColorScheme,
+    prefersReducedMotion,
+    userAgent,
+    extraHeaders,
+    cookies,
+    cookieJar,
+    isolation,
+    storageState,
+    exportStorageState,
+    basicAuth,
+    blockUrls,
+    allowHosts,
+    networkPolicy,
+    metadata,
+    encryption,
+    signature,
+    outline,
+    tagged,
+    lang,
+    pdfa,
+    evaluateOnNewDocument,
+    injectCss,
+    evaluate,
+    retry,
+    failOnPageError,
+    failOnConsoleError,
+    failOnRequestError,
+    minPages,
+    maxPages,
+    deterministic,
+    frozenTime,
+};
+
+if (argv['print-config']) {
+    console.log(JSON.stringify(redactSecrets(options), null, 2));
     process.exit();
-})();
+}
+
+if (serve) {
+    startServer();
+} else {
+    renderJobs();
+}
+
+function renderJobs() {
+    const urls: string[] = toArray(argv['url']);
+    const htmlFiles: string[] = toArray(argv['html-file']);
+    const pdfs: string[] = toArray(argv['pdf']);
+
+    if (urls.length > 0 && htmlFiles.length > 0) {
+        console.error('ERROR: --url and --html-file cannot be combined\n');
+        printHelp();
+        process.exit(1);
+    }
+
+    if (mergeTo && pdfs.length > 0) {
+        console.error('ERROR: --merge-to cannot be combined with --pdf\n');
+        printHelp();
+        process.exit(1);
+    }
+
+    if (mergeTo && typeof argv['jobs'] === 'string') {
+        console.error('ERROR: --merge-to cannot be combined with --jobs\n');
+        printHelp();
+        process.exit(1);
+    }
+
+    if (mergeTo) {
+        // every source becomes a section of the merged file
+        pdfs.push(...[...urls, ...htmlFiles].map(() => mergeTo!));
+    }
+
+    if (pdfs.length !== urls.length + htmlFiles.length) {
+        console.error('ERROR: Unpaired --url, --html-file or --pdf found\n');
+        printHelp();
+        process.exit(1);
+    }
+
+    if (urls.filter((url) => url === '-').length > 1) {
+        console.error('ERROR: stdin can only be used once with --url -\n');
+        printHelp();
+        process.exit(1);
+    }
+
+    (async () => {
+        let results: RenderJobResult[];
+        try {
+            const jobs = generateJobList(urls, htmlFiles, pdfs);
+            if (typeof argv['jobs'] === 'string') {
+                jobs.push(...readJobManifest(argv['jobs']));
+            }
+            if (mergeTo) {
+                const sections = jobs.map(({pdf, ...section}) => section);
+                results = [await RenderPDF.generateMergedPdf(sections, mergeTo, options)];
+            } else {
+                results = await RenderPDF.generateMultiplePdf(jobs, options);
+            }
+        } catch (e) {
+            console.error(e);
+            if (e instanceof RenderJobError) {
+                writeReport(e.results);
+            }
+            process.exit(1);
+        }
+        writeReport(results);
+        const failed = results.filter((result) => result.status === 'failed').length;
+        if (failed > 0) {
+            console.error(`${failed} of ${results.length} pdf(s) failed to render`);
+            process.exit(1);
+        }
+        process.exit();
+    })();
+}
+
+function startServer() {
+    const server = createRenderServer(options);
+    const shutdown = async () => {
+        try {
+            await server.close();
+        } catch (e) {
+            console.error(e);
+            process.exit(1);
+        }
+        process.exit();
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
+    (async () => {
+        try {
+            await server.listen(port, host);
+        } catch (e) {
+            console.error(e);
+            await server.renderer.close();
+            process.exit(1);
+        }
+    })();
+}
 
 
-function generateJobList(urls: string[], pdfs: string[]) {
-    const jobs = [];
+function generateJobList(urls: string[], htmlFiles: string[], pdfs: string[]) {
+    const jobs: RenderJob[] = [];
     for (let j = 0; j < urls.length; j++) {
+        if (urls[j] === '-') {
+            jobs.push({
+                html: fs.readFileSync(0, 'utf-8'),
+                baseUrl,
+                pdf: pdfs[j]
+            });
+        } else {
+            jobs.push({
+                url: urls[j],
+                pdf: pdfs[j]
+            });
+        }
+    }
+    for (let j = 0; j < htmlFiles.length; j++) {
         jobs.push({
-            url: urls[j],
-            pdf: pdfs[j]
+            html: fs.readFileSync(htmlFiles[j], 'utf-8'),
+            baseUrl,
+            pdf: pdfs[urls.length + j]
         });
     }
     return jobs;
 }
 
+// the printed config ends up in terminals, logs and bug reports, so passwords, header values and cookies are hidden
+function redactSecrets(resolved: typeof options) {
+    const redacted = '<redacted>';
+    const hide = (value: string | undefined) => (value === undefined ? undefined : redacted);
+    const headers: Record<string, string> = {};
+    for (const name of Object.keys(resolved.extraHeaders)) {
+        headers[name] = redacted;
+    }
+    return {
+        ...resolved,
+        extraHeaders: headers,
+        cookies: resolved.cookies.map((cookie) => ({...cookie, value: redacted})),
+        basicAuth: resolved.basicAuth && {...resolved.basicAuth, password: redacted},
+        encryption: resolved.encryption && {
+            ...resolved.encryption,
+            userPassword: hide(resolved.encryption.userPassword),
+            ownerPassword: hide(resolved.encryption.ownerPassword),
+        },
+        signature: resolved.signature && {...resolved.signature, passphrase: hide(resolved.signature.passphrase)},
+    };
+}
+
+function writeReport(results: RenderJobResult[]) {
+    if (!report) {
+        return;
+    }
+    const entries = results.map((result) => ({
+        ...result,
+        error: result.error === undefined
+            ? undefined
+            : (result.error instanceof Error ? result.error.message : String(result.error)),
+    }));
+    fs.writeFileSync(report, JSON.stringify(entries, null, 2), 'utf-8');
+}
+
+// a template given on the command line replaces a template file from the environment or config and the other way around
+function templateFlags(name: 'header' | 'footer'): [string | undefined, string | undefined] {
+    const flag = `${name}-template`;
+    const fileFlag = `${name}-template-file`;
+    if (typeof cliArgv[flag] === 'string' && typeof cliArgv[fileFlag] === 'string') {
+        console.error(`ERROR: --${flag} and --${fileFlag} cannot be combined\n`);
+        printHelp();
+        process.exit(1);
+    }
+    if (typeof cliArgv[flag] === 'string') {
+        return [cliArgv[flag], undefined];
+    }
+    if (typeof argv[fileFlag] === 'string') {
+        return [undefined, argv[fileFlag]];
+    }
+    return [typeof argv[flag] === 'string' ? argv[flag] : undefined, undefined];
+}
+
+// returns the value of a length flag, exits when it isn't a valid length
+function dimensionFlag(flag: string): string | undefined {
+    const value = argv[flag];
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    validate(() => parseDimension(`--${flag}`, value));
+    return value;
+}
+
+function validate<T>(check: () => T): T {
+    try {
+        return check();
+    } catch (e) {
+        console.error(`ERROR: ${e instanceof Error ? e.message : e}\n`);
+        process.exit(1);
+    }
+}
+
+// @path reads the source from a file, like curl does
+function readSource(value: string): string {
+    return value.startsWith('@') ? fs.readFileSync(value.slice(1), 'utf-8') : value;
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+    if (value === undefined) {
+        return [];
+    }
+    return typeof value === 'string' ? [value] : value;
+}
+
 function printHelp() {
     console.log('chrome-headless-render-pdf [OPTIONS] --url=URL --pdf=OUTPUT-FILE [--url=URL2 --pdf=OUTPUT-FILE2] ...');
+    console.log('chrome-headless-render-pdf [OPTIONS] --url=URL [--url=URL2 ...] --merge-to=OUTPUT-FILE');
+    console.log('chrome-headless-render-pdf [OPTIONS] --jobs=MANIFEST-FILE');
+    console.log('chrome-headless-render-pdf serve [OPTIONS] [--port=PORT] [--host=HOST]');
     console.log('  Options:');
     console.log('    --help                   this screen');
-    console.log('    --url                    url to load, for local files use: file:///path/to/file');
+    console.log('    --config                 read default options from a JSON or YAML file (default: .renderpdfrc in the current or a parent directory,');
+    console.log('                             --no-config to ignore it), options can also be set as RENDER_PDF_<OPTION> environment variables');
+    console.log('    --print-config           print the options resolved from the command line, environment and config file and exit');
+    console.log('    --url                    url to load, for local files use: file:///path/to/file, use - to read html from stdin');
+    console.log('    --html-file              html file to render, its content is injected into the page (can\'t be combined with --url)');
+    console.log('    --base-url               url html from --html-file or stdin is served as, relative assets are resolved against it');
     console.log('    --pdf                    output for generated file can be relative to current directory');
+    console.log('    --jobs                   render the jobs listed in a .json, .jsonl or .csv file, each with a url, html or htmlFile source,');
+    console.log('                             a pdf output and optional overrides of any option, e.g. {"url": "...", "pdf": "a.pdf", "landscape": true}');
     console.log('    --chrome-binary          set chrome location (use this options when autodetection fail)');
     console.log('    --chrome-option          set chrome option, can be used multiple times, e.g. --chrome-option=--no-sandbox');
     console.log('    --remote-host            set chrome host (for remote process)');
     console.log('    --remote-port            set chrome port (for remote process)');
     console.log('    --no-margins             disable default 1cm margins');
+    console.log('    --margin                 margin of every side, e.g. 2cm, 15mm, 0.5in, 48px or 36pt, a number is inches');
+    console.log('    --margin-top             top margin, takes precedence over --margin and --no-margins, same for --margin-bottom,');
+    console.log('                             --margin-left and --margin-right');
     console.log('    --include-background     include elements background');
     console.log('    --landscape              generate pdf in landscape orientation');
     console.log('    --window-size            specify window size, width(,x*)height (e.g. --window-size 1600,1200 or --window-size 1600x1200)');
-    console.log('    --paper-width            specify page width in inches (defaults to 8.5 inches)');
-    console.log('    --paper-height           specify page height in inches (defaults to 11 inches)');
+    console.log('    --paper-format           named paper size: Letter, Legal, Tabloid, A3, A4 or A5, in portrait (use --landscape to rotate)');
+    console.log('    --paper-width            specify page width, e.g. 21cm, 210mm or 8.5in, a number is inches (defaults to 8.5 inches)');
+    console.log('    --paper-height           specify page height, e.g. 29.7cm, 297mm or 11in, a number is inches (defaults to 11 inches)');
     console.log('    --prefer-css-page-size   respect CSS specified @page size');
     console.log('    --page-ranges            specify pages to render default all pages,  e.g. 1-5, 8, 11-13');
     console.log('    --scale                  specify scale of the webpage rendering (defaults to 1)');
     console.log('    --display-header-footer  display text headers and footers');
-    console.log('    --header-template        HTML template for the header. Inject variables using the classes "date", "title", "url", "pageNumber" or "totalPages"');
-    console.log('    --footerTemplate         HTML template for the footer. Inject variables using the classes "date", "title", "url", "pageNumber" or "totalPages"');
+    console.log('    --header-template        HTML template for the header. Use {{date}}, {{title}}, {{url}}, {{pageNumber}} or {{totalPages}} for page values');
+    console.log('    --footer-template        HTML template for the footer. Use {{date}}, {{title}}, {{url}}, {{pageNumber}} or {{totalPages}} for page values');
+    console.log('    --header-template-file   read the header template from a file, stylesheets and images it references are embedded');
+    console.log('    --footer-template-file   read the footer template from a file, stylesheets and images it references are embedded');
+    console.log('    --template-var           value for a {{name}} placeholder in the templates, name=value, can be used multiple times');
+    console.log('    --no-template-styles     don\'t add the default font size and width styles to template files');
     console.log('    --js-time-budget         Virtual time budget in ms to wait for js execution (default 5000)');
     console.log('    --animation-time-budget  Time budget in ms to wait for in progress animations to finish (default 5000)');
     console.log('    --trace-filename         enable tracing and write output to specified file');
     console.log('    --log-network-requests   log all network requests generated by the loaded page');
+    console.log('    --concurrency            number of pdfs rendered in parallel, each in its own tab (default 1)');
+    console.log('    --wait-for-event         wait for a window event with given name before printing, can be used multiple times');
+    console.log('    --wait-for-selector      wait for an element matching given CSS selector, can be used multiple times');
+    console.log('    --wait-for-expression    wait for a JS expression to become truthy, can be used multiple times');
+    console.log('    --wait-for-network-idle  wait until there were no network requests for given number of ms');
+    console.log('    --wait-for-fonts         wait for document.fonts.ready');
+    console.log('    --wait-timeout           time in ms after which waiting fails the render (default 30000)');
+    console.log('    --render-timeout         fail a render that takes longer than given number of ms in total');
+    console.log('    --format                 output format: pdf, png, jpeg or webp (defaults to the extension of --pdf, else pdf)');
+    console.log('    --full-page              capture the whole page instead of the viewport for image formats');
+    console.log('    --clip                   capture only given region for image formats, x,y,width,height in css pixels');
+    console.log('    --quality                compression quality 0-100 for jpeg and webp');
+    console.log('    --device-scale-factor    device scale factor used for rendering, e.g. 2 for high resolution images');
+    console.log('    --viewport               emulated viewport size in css pixels, width(,x*)height (e.g. --viewport 1280x800)');
+    console.log('    --mobile                 emulate a mobile device with --viewport');
+    console.log('    --emulate-media          css media type to render with: print (default) or screen');
+    console.log('    --timezone               timezone the page sees, e.g. Europe/Berlin');
+    console.log('    --locale                 locale the page sees and sends as Accept-Language, e.g. de-DE');
+    console.log('    --color-scheme           emulate prefers-color-scheme: light, dark or no-preference');
+    console.log('    --reduced-motion         emulate prefers-reduced-motion: reduce or no-preference');
+    console.log('    --user-agent             user agent sent with requests and seen by the page');
+    console.log('    --header                 extra HTTP header sent with requests to the origin of the rendered url, e.g. --header \'Authorization: Bearer xyz\', can be used multiple times');
+    console.log('    --cookie                 cookie set for the loaded url before navigation, e.g. --cookie session=abc, can be used multiple times');
+    console.log('    --cookie-jar             load cookies from a Netscape cookies.txt or JSON file');
+    console.log('    --isolation              render every page in its own incognito browser context, nothing is shared between renders');
+    console.log('    --storage-state          JSON file with cookies and localStorage the isolated context starts with, implies --isolation');
+    console.log('    --export-storage-state   write cookies and localStorage after the render to a JSON file, implies --isolation');
+    console.log('    --basic-auth             credentials for HTTP basic auth challenges from the origin of the rendered url, username:password');
+    console.log('    --block-url              block requests matching url pattern, * matches anything, e.g. \'*google-analytics.com*\', can be used multiple times');
+    console.log('    --allow-host             only allow requests to given host, *.example.com allows subdomains, can be used multiple times');
+    console.log('    --network-policy         restrict what the page may load: offline, same-origin or allowlist (see --network-allow)');
+    console.log('    --network-allow          host allowed by --network-policy allowlist, *.example.com allows subdomains, can be used multiple times');
+    console.log('    --asset-root             directory file:// requests may read from when --network-policy is set, file access is denied otherwise');
+    console.log('    --allow-private-network  allow requests to loopback and private addresses when --network-policy is set');
+    console.log('    --inject-script          script evaluated before the page\'s own scripts, @path reads it from a file, can be used multiple times');
+    console.log('    --inject-css             stylesheet added once the page loaded, @path reads it from a file, can be used multiple times');
+    console.log('    --evaluate               script evaluated once the page loaded, @path reads it from a file, can be used multiple times');
+    console.log('    --merge-to               render all --url/--html-file sources into a single pdf instead of using --pdf, with a bookmark per source');
+    console.log('    --title                  set the title of the generated pdf');
+    console.log('    --author                 set the author of the generated pdf');
+    console.log('    --subject                set the subject of the generated pdf');
+    console.log('    --keywords               set the keywords of the generated pdf, comma separated');
+    console.log('    --user-password          encrypt the pdf with AES-256, password needed to open it (RENDER_PDF_USER_PASSWORD keeps it off the command line)');
+    console.log('    --owner-password         encrypt the pdf with AES-256, password that lifts --permissions (random by default)');
+    console.log('    --permissions            what the encrypted pdf allows without the owner password, comma separated: print, copy, modify or none (default all)');
+    console.log('    --sign-p12               sign the pdf with the RSA key and certificates of a PKCS#12 file');
+    console.log('    --sign-key               sign the pdf with an RSA key from a PEM file, needs --sign-cert');
+    console.log('    --sign-cert              PEM file with the certificate of --sign-key, followed by its chain');
+    console.log('    --sign-passphrase        passphrase of --sign-p12 or an encrypted --sign-key');
+    console.log('    --sign-reason            reason stated in the signature');
+    console.log('    --sign-location          location stated in the signature');
+    console.log('    --outline                generate bookmarks from the h1-h3 headings of the page');
+    console.log('    --tagged                 generate a tagged pdf with a structure tree for screen readers (needs a recent chrome)');
+    console.log('    --lang                   language of the pdf, e.g. en-US, --tagged uses the lang attribute of the page by default');
+    console.log('    --pdfa                   archival output: PDF/A-2b, PDF/A-2u, PDF/A-3b or PDF/A-3u, fails when the pdf can\'t conform');
+    console.log('    --deterministic          render identical content to identical bytes: freeze the page clock and Math.random,');
+    console.log('                             disable animations and derive the pdf dates and id from the content');
+    console.log('    --frozen-time            time the page clock shows with --deterministic, ISO 8601 or ms (default 2000-01-01T00:00:00Z)');
+    console.log('    --max-attempts           attempts per pdf before it counts as failed (default 1), chrome is restarted when it crashed');
+    console.log('    --retry-backoff          delay in ms before the first retry, doubled for every further one (default 1000)');
+    console.log('    --retry-on               failures that are retried, comma separated: disconnect, timeout, navigation (default disconnect)');
+    console.log('    --fail-on-page-error     fail the render when the page throws an uncaught exception');
+    console.log('    --fail-on-console-error  fail the render when the page calls console.error');
+    console.log('    --fail-on-request-error  fail the render when a request fails or gets a response with status >= 400');
+    console.log('    --fail-on-request-url    like --fail-on-request-error, only for urls matching pattern, * matches anything, can be used multiple times');
+    console.log('    --min-pages              fail the render when the pdf has fewer pages');
+    console.log('    --max-pages              fail the render when the pdf has more pages');
+    console.log('    --strict                 stop at the first pdf that fails to render');
+    console.log('    --report                 write a JSON summary with status, size and timings of every pdf to specified file');
+    console.log('    --port                   port to listen on in serve mode (default 8080)');
+    console.log('    --host                   address to listen on in serve mode (default all interfaces)');
     console.log('');
     console.log('  Example:');
     console.log('    Render single pdf file');
     console.log('      chrome-headless-render-pdf --url http://google.com --pdf test.pdf');
     console.log('    Render pdf from local file');
     console.log('      chrome-headless-render-pdf --url file:///tmp/example.html --pdf test.pdf');
+    console.log('    Render html from stdin, loading relative assets from a web server');
+    console.log('      cat report.html | chrome-headless-render-pdf --url - --base-url https://example.com/reports/ --pdf test.pdf');
+    console.log('    Render pdf once the page rendered its charts and loaded its fonts');
+    console.log('      chrome-headless-render-pdf --url http://example.com/report --pdf test.pdf --wait-for-selector \'.chart-ready\' --wait-for-fonts');
+    console.log('    Render pdf and a png thumbnail of the same page');
+    console.log('      chrome-headless-render-pdf --url http://google.com --pdf test.pdf --url http://google.com --pdf thumb.png');
+    console.log('    Render untrusted html with images from a local directory only');
+    console.log('      chrome-headless-render-pdf --url file:///srv/assets/upload.html --network-policy offline --asset-root /srv/assets --pdf test.pdf');
+    console.log('    Render an invoice with a cover page into a single pdf');
+    console.log('      chrome-headless-render-pdf --url file:///tmp/cover.html --url file:///tmp/invoice.html --merge-to invoice.pdf --title Invoice --outline');
+    console.log('    Render an A4 landscape pdf with 2cm margins and a larger top margin');
+    console.log('      chrome-headless-render-pdf --url http://google.com --pdf test.pdf --paper-format A4 --landscape --margin 2cm --margin-top 30mm');
+    console.log('    Render the screen stylesheet of a dashboard as seen from Berlin');
+    console.log('      chrome-headless-render-pdf --url http://example.com/dashboard --pdf test.pdf --emulate-media screen --timezone Europe/Berlin --locale de-DE');
+    console.log('    Render a report with its data set before the app boots and the cookie banner hidden');
+    console.log('      chrome-headless-render-pdf --url http://example.com/report --pdf test.pdf --inject-script @report-data.js --inject-css \'.cookie-banner{display:none}\'');
+    console.log('    Render an invoice, failing when the page breaks, an API call fails or it doesn\'t fit on one page');
+    console.log('      chrome-headless-render-pdf --url http://example.com/invoice --pdf test.pdf --fail-on-page-error --fail-on-request-url \'*/api/*\' --max-pages 1');
+    console.log('    Render a password protected report that can be printed but not copied, signed with the key of a PKCS#12 file');
+    console.log('      RENDER_PDF_SIGN_PASSPHRASE=secret chrome-headless-render-pdf --url http://example.com/report --pdf test.pdf --user-password 1234 --permissions print --sign-p12 lab.p12');
+    console.log('    Render an accessible German report for an archive');
+    console.log('      chrome-headless-render-pdf --url http://example.com/report --pdf test.pdf --tagged --lang de-DE --pdfa PDF/A-2u --title Report');
     console.log('    Render multiple pdf files');
     console.log('      chrome-headless-render-pdf --url http://google.com --pdf test.pdf --url file:///tmp/example.html --pdf test2.pdf');
-    console.log('    Render pdf with custom footer and no header (styles are mandatory)');
+    console.log('    Render with options from a config file, overriding one of them with an environment variable');
+    console.log('      RENDER_PDF_LANDSCAPE=true chrome-headless-render-pdf --config render.yml --url http://google.com --pdf test.pdf');
+    console.log('    Render the jobs of a manifest, four at a time');
+    console.log('      chrome-headless-render-pdf --jobs jobs.csv --concurrency 4');
+    console.log('    Render pdf with a footer from a file showing the report id and page numbers');
+    console.log('      chrome-headless-render-pdf --url file:///tmp/report.html --pdf test.pdf --display-header-footer --footer-template-file footer.html --template-var reportId=R-42');
+    console.log('    Render pdf with custom footer and no header');
     console.log('      chrome-headless-render-pdf --url file:///tmp/example.html --pdf test.pdf --display-header-footer --header-template \' \' \\');
     console.log('        --footer-template \'<style type="text/css">.footer{font-size:8px;width:100%;text-align:center;color:#000;padding-left:0.65cm;}</style><div class="footer"><span class="pageNumber"></span> / <span class="totalPages"></span></div>\'');
+    console.log('    Run a render server, then POST {"url": "http://google.com"} or {"html": "<h1>Hi</h1>"} to /render');
+    console.log('      chrome-headless-render-pdf serve --port 8080');
 }
@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+
+// command line flags set by a config file or environment variables, values as minimist would parse them
+type FlagValues = Record<string, string | string[] | boolean>;
+
+const configFileName = '.renderpdfrc';
+const envPrefix = 'RENDER_PDF_';
+
+// flags holding a file path that is resolved against the directory of the config file
+const templateFileFlags: Record<string, string> = {
+    'header-template-file': 'header-template',
+    'footer-template-file': 'footer-template',
+};
+
+// settings given in two ways, setting either way replaces the other one set by a source of lower precedence
+const alternativeFlags: Array<[string[], string[]]> = [
+    ...Object.entries(templateFileFlags).map(([fileFlag, flag]): [string[], string[]] => [[fileFlag], [flag]]),
+    [['paper-format'], ['paper-width', 'paper-height']],
+];
+
+// looks for .renderpdfrc in the given directory and its parents
+function findConfigFile(dir: string = process.cwd()): string | undefined {
+    let current = path.resolve(dir);
+    while (true) {
+        const candidate = path.join(current, configFileName);
+        if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+            return candidate;
+        }
+        const parent = path.dirname(current);
+        if (parent === current) {
+            return undefined;
+        }
+        current = parent;
+    }
+}
+
+// reads a JSON or YAML file mapping flag names (without leading dashes) to values
+function readConfigFile(filename: string, stringFlags: string[], booleanFlags: string[]): FlagValues {
+    const content = fs.readFileSync(filename, 'utf-8');
+    let config: unknown;
+    try {
+        config = path.extname(filename).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+    } catch (e) {
+        throw new Error(`Invalid config file ${filename}: ${e instanceof Error ? e.message : e}`);
+    }
+    if (config === null || config === undefined) {
+        return {};
+    }
+    if (typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error(`Config file ${filename} must contain an object`);
+    }
+
+    const flags: FlagValues = {};
+    for (const [key, value] of Object.entries(config as Record<string, unknown>)) {
+        const flag = key.replace(/^--/, '');
+        if (booleanFlags.includes(flag)) {
+            if (typeof value !== 'boolean') {
+                throw new Error(`"${key}" in ${filename} must be true or false`);
+            }
+            setBoolean(flags, flag, value);
+        } else if (stringFlags.includes(flag)) {
+            if (Array.isArray(value) && value.every(isScalar)) {
+                flags[flag] = value.map(String);
+            } else if (isScalar(value)) {
+                flags[flag] = String(value);
+            } else {
+                throw new Error(`"${key}" in ${filename} must be a string, a number or a list of them`);
+            }
+        } else {
+            throw new Error(`Unknown option "${key}" in ${filename}`);
+        }
+    }
+    return resolveTemplateFiles(flags, path.dirname(filename));
+}
+
+// reads RENDER_PDF_<FLAG> variables, e.g. RENDER_PDF_JS_TIME_BUDGET=3000 for --js-time-budget
+function readEnv(env: NodeJS.ProcessEnv, stringFlags: string[], booleanFlags: string[]): FlagValues {
+    const flags: FlagValues = {};
+    const name = (flag: string) => envPrefix + flag.toUpperCase().replace(/-/g, '_');
+    for (const flag of booleanFlags) {
+        const value = env[name(flag)];
+        if (value === undefined) {
+            continue;
+        }
+        if (!/^(true|false|1|0)$/i.test(value)) {
+            throw new Error(`${name(flag)} must be true, false, 1 or 0`);
+        }
+        setBoolean(flags, flag, /^(true|1)$/i.test(value));
+    }
+    for (const flag of stringFlags) {
+        const value = env[name(flag)];
+        if (value !== undefined) {
+            flags[flag] = value;
+        }
+    }
+    return resolveTemplateFiles(flags, process.cwd());
+}
+
+function isScalar(value: unknown): value is string | number {
+    return typeof value === 'string' || typeof value === 'number';
+}
+
+function setBoolean(flags: FlagValues, flag: string, value: boolean) {
+    // minimist turns --no-margins into margins: false
+    if (flag.startsWith('no-')) {
+        flags[flag.slice(3)] = !value;
+    } else {
+        flags[flag] = value;
+    }
+}
+
+// template files are resolved where they are configured, relative to the config file
+function resolveTemplateFiles(flags: FlagValues, dir: string): FlagValues {
+    for (const [fileFlag, flag] of Object.entries(templateFileFlags)) {
+        const filename = flags[fileFlag];
+        if (filename === undefined) {
+            continue;
+        }
+        if (typeof filename !== 'string') {
+            throw new Error(`"${fileFlag}" must be a single file`);
+        }
+        if (flags[flag] !== undefined) {
+            throw new Error(`"${flag}" and "${fileFlag}" cannot be combined`);
+        }
+        flags[fileFlag] = path.resolve(dir, filename);
+    }
+    return flags;
+}
+
+// removes the flags of merged that are replaced by the other way of giving the same setting in source
+function dropReplacedFlags(merged: FlagValues, source: FlagValues) {
+    for (const pair of alternativeFlags) {
+        for (const [flags, replaced] of [pair, [pair[1], pair[0]]]) {
+            if (flags.some((flag) => source[flag] !== undefined)) {
+                // conflicts within one source are reported, not resolved
+                replaced.filter((flag) => source[flag] === undefined).forEach((flag) => delete merged[flag]);
+            }
+        }
+    }
+}
+
+// later sources take precedence, a template replaces a template file from an earlier source and the other way around,
+// as does a paper format a paper size
+function mergeFlags(...sources: FlagValues[]): FlagValues {
+    const merged: FlagValues = {};
+    for (const source of sources) {
+        dropReplacedFlags(merged, source);
+        Object.assign(merged, source);
+    }
+    return merged;
+}
+
+export {FlagValues, findConfigFile, readConfigFile, readEnv, mergeFlags, dropReplacedFlags};
@@ -0,0 +1,54 @@
+import {OptionValidationError} from "./errors";
+
+// page clock in deterministic mode unless frozenTime is set
+const defaultFrozenTime = Date.UTC(2000, 0, 1);
+
+const disableAnimationsScript = `(() => {
+    const style = document.createElement('style');
+    style.textContent = '*, *::before, *::after {'
+        + ' animation: none !important; transition: none !important; caret-color: transparent !important; }';
+    (document.head || document.documentElement).appendChild(style);
+})()`;
+
+// evaluated before any script of the page, so the page never sees the real clock or an unseeded random generator
+function deterministicScript(time: number) {
+    return `(() => {
+    const time = ${time};
+    const NativeDate = Date;
+    function FrozenDate(...args) {
+        if (!new.target) {
+            return new NativeDate(time).toString();
+        }
+        return new NativeDate(...(args.length > 0 ? args : [time]));
+    }
+    FrozenDate.prototype = NativeDate.prototype;
+    FrozenDate.now = () => time;
+    FrozenDate.parse = NativeDate.parse;
+    FrozenDate.UTC = NativeDate.UTC;
+    Date = FrozenDate;
+
+    // mulberry32
+    let seed = 0x2f6b1d3a;
+    Math.random = () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+
+    document.addEventListener('DOMContentLoaded', () => ${disableAnimationsScript});
+})()`;
+}
+
+function frozenTime(value: number | string | Date | undefined): number {
+    if (value === undefined) {
+        return defaultFrozenTime;
+    }
+    const time = new Date(value).getTime();
+    if (isNaN(time)) {
+        throw new OptionValidationError('frozenTime', value, 'expected a date, an ISO 8601 string or a timestamp in ms');
+    }
+    return time;
+}
+
+export {deterministicScript, disableAnimationsScript, frozenTime};
@@ -0,0 +1,121 @@
+import type {RenderJobResult} from "./index";
+import type {ReadinessStrategy} from "./readiness";
+import type {QualityViolation} from "./quality";
+import type {PdfAViolation} from "./pdfa";
+
+class RenderJobError extends Error {
+    result: RenderJobResult;
+    // results of every job that finished before the batch was aborted, including the failed one
+    results: RenderJobResult[];
+
+    constructor(result: RenderJobResult, results: RenderJobResult[] = [result]) {
+        const cause = result.error instanceof Error ? result.error.message : String(result.error);
+        super(`Failed to render ${result.url || 'html document'} to ${result.pdf}: ${cause}`);
+        this.name = 'RenderJobError';
+        this.result = result;
+        this.results = results;
+    }
+}
+
+class ReadinessTimeoutError extends Error {
+    strategy: ReadinessStrategy;
+    timeout: number;
+
+    constructor(strategy: ReadinessStrategy, description: string, timeout: number) {
+        super(`Timed out after ${timeout}ms waiting for ${description}`);
+        this.name = 'ReadinessTimeoutError';
+        this.strategy = strategy;
+        this.timeout = timeout;
+    }
+}
+
+type RenderPhase = 'load' | 'js' | 'animations' | 'print';
+
+class RenderTimeoutError extends Error {
+    phase: RenderPhase;
+    timeout: number;
+
+    constructor(phase: RenderPhase, timeout: number) {
+        super(`Render timed out after ${timeout}ms in ${phase} phase`);
+        this.name = 'RenderTimeoutError';
+        this.phase = phase;
+        this.timeout = timeout;
+    }
+}
+
+class RenderAbortedError extends Error {
+    phase: RenderPhase;
+
+    constructor(phase: RenderPhase) {
+        super(`Render aborted in ${phase} phase`);
+        this.name = 'RenderAbortedError';
+        this.phase = phase;
+    }
+}
+
+class NavigationError extends Error {
+    url: string;
+    errorText: string;
+
+    constructor(url: string, errorText: string) {
+        super(`Failed to load ${url}: ${errorText}`);
+        this.name = 'NavigationError';
+        this.url = url;
+        this.errorText = errorText;
+    }
+}
+
+class ChromeDisconnectedError extends Error {
+    constructor() {
+        super('Lost connection to chrome');
+        this.name = 'ChromeDisconnectedError';
+    }
+}
+
+class ChromeExitedError extends Error {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+
+    constructor(code: number | null, signal: NodeJS.Signals | null) {
+        super(`Chrome exited unexpectedly (${signal || `code ${code}`})`);
+        this.name = 'ChromeExitedError';
+        this.code = code;
+        this.signal = signal;
+    }
+}
+
+class QualityGateError extends Error {
+    violations: QualityViolation[];
+
+    constructor(violations: QualityViolation[]) {
+        super(`Render failed ${violations.length} quality check(s):\n${violations.map((violation) => `  - ${violation.message}`).join('\n')}`);
+        this.name = 'QualityGateError';
+        this.violations = violations;
+    }
+}
+
+class PdfAConformanceError extends Error {
+    conformance: string;
+    violations: PdfAViolation[];
+
+    constructor(conformance: string, violations: PdfAViolation[]) {
+        super(`Document can't conform to ${conformance}, ${violations.length} problem(s) found:\n${violations.map((violation) => `  - ${violation.message}`).join('\n')}`);
+        this.name = 'PdfAConformanceError';
+        this.conformance = conformance;
+        this.violations = violations;
+    }
+}
+
+class OptionValidationError extends Error {
+    option: string;
+    value: unknown;
+
+    constructor(option: string, value: unknown, reason: string) {
+        super(`Invalid ${option} ${JSON.stringify(value)}: ${reason}`);
+        this.name = 'OptionValidationError';
+        this.option = option;
+        this.value = value;
+    }
+}
+
+export {RenderJobError, ReadinessTimeoutError, RenderPhase, RenderTimeoutError, RenderAbortedError, NavigationError, ChromeDisconnectedError, ChromeExitedError, QualityGateError, PdfAConformanceError, OptionValidationError};
@@ -0,0 +1,102 @@
+import {Protocol} from "devtools-protocol";
+import type {RenderJobResult} from "./index";
+import type {RenderPhase} from "./errors";
+
+interface JobStartEvent {
+    url?: string;
+    pdf: string;
+    attempt: number;
+}
+
+interface PhaseEvent {
+    phase: RenderPhase;
+    // ms
+    duration: number;
+}
+
+interface PageConsoleEvent {
+    // log, warning, error, ...
+    type: string;
+    // arguments converted to JSON values where possible, descriptions of everything else
+    args: unknown[];
+    text: string;
+}
+
+interface PageExceptionEvent {
+    message: string;
+    url?: string;
+    lineNumber: number;
+    columnNumber: number;
+    stack?: string;
+}
+
+interface RequestEvent {
+    requestId: string;
+    url: string;
+    method: string;
+}
+
+interface ResponseEvent {
+    requestId: string;
+    url: string;
+    status: number;
+    // ms since the request was sent
+    duration?: number;
+}
+
+interface ChromeOutputEvent {
+    stream: 'stdout' | 'stderr';
+    line: string;
+}
+
+// payload of every event RenderPDF emits
+interface RenderEvents {
+    jobStart: JobStartEvent;
+    jobEnd: RenderJobResult;
+    phase: PhaseEvent;
+    console: PageConsoleEvent;
+    pageError: PageExceptionEvent;
+    request: RequestEvent;
+    response: ResponseEvent;
+    chromeOutput: ChromeOutputEvent;
+}
+
+function remoteObjectValue(object: Protocol.Runtime.RemoteObject): unknown {
+    if ('value' in object) {
+        return object.value;
+    }
+    if (object.unserializableValue !== undefined) {
+        return object.unserializableValue;
+    }
+    return object.description ?? object.type;
+}
+
+function consoleEvent(event: Protocol.Runtime.ConsoleAPICalledEvent): PageConsoleEvent {
+    const args = event.args.map(remoteObjectValue);
+    const text = args.map((arg) => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ');
+    return {type: event.type, args, text};
+}
+
+function exceptionEvent({exceptionDetails}: Protocol.Runtime.ExceptionThrownEvent): PageExceptionEvent {
+    const {exception} = exceptionDetails;
+    return {
+        message: exception?.description?.split('\n')[0] || exceptionDetails.text,
+        url: exceptionDetails.url,
+        lineNumber: exceptionDetails.lineNumber,
+        columnNumber: exceptionDetails.columnNumber,
+        stack: exception?.description,
+    };
+}
+
+export {
+    RenderEvents,
+    JobStartEvent,
+    PhaseEvent,
+    PageConsoleEvent,
+    PageExceptionEvent,
+    RequestEvent,
+    ResponseEvent,
+    ChromeOutputEvent,
+    consoleEvent,
+    exceptionEvent,
+};
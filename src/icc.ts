@@ -0,0 +1,101 @@
+// a minimal ICC v2 display profile for sRGB, the output intent of PDF/A documents rendered by chrome
+
+// colorants adapted to the D50 connection space, as in the sRGB IEC61966-2.1 profile
+const whitePoint = [0.9505, 1.0, 1.0891];
+const connectionIlluminant = [0.9642, 1.0, 0.8249];
+const colorants: Record<string, number[]> = {
+    rXYZ: [0.4361, 0.2225, 0.0139],
+    gXYZ: [0.3851, 0.7169, 0.0971],
+    bXYZ: [0.1431, 0.0606, 0.7141],
+};
+const curvePoints = 1024;
+
+function s15Fixed16(values: number[]) {
+    const buffer = Buffer.alloc(values.length * 4);
+    values.forEach((value, i) => buffer.writeInt32BE(Math.round(value * 65536), i * 4));
+    return buffer;
+}
+
+function typed(signature: string, data: Buffer) {
+    return Buffer.concat([Buffer.from(signature, 'ascii'), Buffer.alloc(4), data]);
+}
+
+function xyzTag(values: number[]) {
+    return typed('XYZ ', s15Fixed16(values));
+}
+
+function textTag(text: string) {
+    return typed('text', Buffer.from(`${text}\0`, 'ascii'));
+}
+
+function descriptionTag(text: string) {
+    const ascii = Buffer.from(`${text}\0`, 'ascii');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(ascii.length);
+    // empty unicode and macintosh descriptions, the latter is a fixed 67 byte field
+    return typed('desc', Buffer.concat([length, ascii, Buffer.alloc(8), Buffer.alloc(3 + 67)]));
+}
+
+// the sRGB transfer function, sampled
+function curveTag() {
+    const data = Buffer.alloc(4 + curvePoints * 2);
+    data.writeUInt32BE(curvePoints);
+    for (let i = 0; i < curvePoints; i++) {
+        const v = i / (curvePoints - 1);
+        const linear = v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+        data.writeUInt16BE(Math.round(linear * 65535), 4 + i * 2);
+    }
+    return typed('curv', data);
+}
+
+function header(size: number) {
+    const buffer = Buffer.alloc(128);
+    buffer.writeUInt32BE(size, 0);
+    buffer.writeUInt32BE(0x02100000, 8);
+    buffer.write('mntrRGB XYZ ', 12, 'ascii');
+    // a fixed creation date keeps the profile, and deterministic renders, byte-identical
+    [2000, 1, 1, 0, 0, 0].forEach((value, i) => buffer.writeUInt16BE(value, 24 + i * 2));
+    buffer.write('acsp', 36, 'ascii');
+    s15Fixed16(connectionIlluminant).copy(buffer, 68);
+    return buffer;
+}
+
+let profile: Buffer | undefined;
+
+function srgbProfile(): Buffer {
+    if (profile) {
+        return profile;
+    }
+    const curve = curveTag();
+    const tags: Array<[string, Buffer]> = [
+        ['desc', descriptionTag('sRGB IEC61966-2.1')],
+        ['cprt', textTag('No copyright, use freely')],
+        ['wtpt', xyzTag(whitePoint)],
+        ...Object.entries(colorants).map(([signature, values]): [string, Buffer] => [signature, xyzTag(values)]),
+        // the three channels share one curve
+        ['rTRC', curve],
+        ['gTRC', curve],
+        ['bTRC', curve],
+    ];
+    const table = Buffer.alloc(4 + tags.length * 12);
+    table.writeUInt32BE(tags.length);
+    const data: Buffer[] = [];
+    const offsets = new Map<Buffer, number>();
+    let offset = 128 + table.length;
+    tags.forEach(([signature, tag], i) => {
+        if (!offsets.has(tag)) {
+            offsets.set(tag, offset);
+            // tag data starts on a 4 byte boundary
+            const padded = Buffer.concat([tag, Buffer.alloc((4 - tag.length % 4) % 4)]);
+            data.push(padded);
+            offset += padded.length;
+        }
+        table.write(signature, 4 + i * 12, 'ascii');
+        table.writeUInt32BE(offsets.get(tag)!, 8 + i * 12);
+        table.writeUInt32BE(tag.length, 12 + i * 12);
+    });
+    profile = Buffer.concat([header(offset), table, ...data]);
+    return profile;
+}
+
+export {srgbProfile};
@@ -3,50 +3,345 @@ import {ChildProcessWithoutNullStreams} from "child_process";
 import {Protocol} from "devtools-protocol";
 
 import CDP from "chrome-remote-interface";
+import {EventEmitter} from "events";
 import fs from "fs";
 import cp from "child_process";
 import net from "net";
+import os from "os";
+import path from "path";
+import {Readable, finished, pipeline} from "stream";
+import {promisify} from "util";
 import commandExists from "command-exists";
+import {
+    ChromeDisconnectedError,
+    ChromeExitedError,
+    NavigationError,
+    QualityGateError,
+    OptionValidationError,
+    PdfAConformanceError,
+    ReadinessTimeoutError,
+    RenderAbortedError,
+    RenderJobError,
+    RenderPhase,
+    RenderTimeoutError,
+} from "./errors";
+import {RetryPolicy, RetryableFailure, isRetryable, maxAttempts, retryDelay} from "./retry";
+import {ReadinessStrategy, ReadinessWaiter} from "./readiness";
+import {
+    MergeSection,
+    OutlineHeading,
+    PdfMetadata,
+    addHeadingOutline,
+    applyLanguage,
+    applyMetadata,
+    countPages,
+    mergePdfs,
+    normalizePdf,
+} from "./pdf";
+import {PdfEncryption, PdfPermissions, PdfSignature, securePdf} from "./security";
+import {PdfAConformance, PdfAViolation, PdfAViolationType, convertToPdfA, parseConformance} from "./pdfa";
+import {QualityGate, QualityGates, QualityViolation, QualityViolationType, hasPageCountGate, pageCountViolations} from "./quality";
+import {deterministicScript, disableAnimationsScript, frozenTime} from "./deterministic";
+import {headingsScript} from "./outline";
+import {TemplateName, renderTemplate} from "./template";
+import {StorageState, collectStorageState, readStorageState, seedLocalStorageScript, writeStorageState} from "./storage";
+import {Dimension, PaperFormat, paperFormatSize, parseDimension} from "./paper";
+import {BasicAuthCredentials, DeniedRequest, NetworkPolicy, RequestInterceptor, readCookieJar} from "./network";
+import {LogFields, Logger, consoleLogger} from "./logger";
+import {
+    ChromeOutputEvent,
+    JobStartEvent,
+    PageConsoleEvent,
+    PageExceptionEvent,
+    PhaseEvent,
+    RenderEvents,
+    RequestEvent,
+    ResponseEvent,
+    consoleEvent,
+    exceptionEvent,
+} from "./events";
 
 interface ConstructorOptions {
     printLogs?: boolean;
     printErrors?: boolean;
+    // receives all output instead of the console, printLogs and printErrors don't apply to it
+    logger?: Logger;
     chromeBinary?: string;
     chromeOptions?: string[];
     remoteHost?: string;
     remotePort?: number;
     noMargins?: boolean;
+    // margin of each side, replaces the default margin (or the one from noMargins) of that side
+    marginTop?: Dimension;
+    marginBottom?: Dimension;
+    marginLeft?: Dimension;
+    marginRight?: Dimension;
     landscape?: boolean;
     includeBackground?: boolean;
     windowSize?: [number, number];
-    paperWidth?: string;
-    paperHeight?: string;
+    // named paper size, can't be combined with paperWidth and paperHeight
+    paperFormat?: PaperFormat;
+    paperWidth?: Dimension;
+    paperHeight?: Dimension;
     preferCSSPageSize?: boolean;
     pageRanges?: string;
     scale?: number;
     displayHeaderFooter?: boolean;
     headerTemplate?: string;
     footerTemplate?: string;
+    // read instead of headerTemplate/footerTemplate, assets are resolved relative to the file
+    headerTemplateFile?: string;
+    footerTemplateFile?: string;
+    // values for {{name}} placeholders in the templates, html escaped
+    templateVariables?: Record<string, string | number>;
+    // embed local stylesheets, images and fonts referenced by the templates as data uris, defaults to template files only
+    inlineTemplateAssets?: boolean;
+    // prepend styles that size templates readably, so they don't need their own, defaults to template files only
+    templateStyles?: boolean;
     jsTimeBudget?: number;
     animationTimeBudget?: number;
     traceFilename?: string;
     logNetworkRequests?: boolean;
+    concurrency?: number;
+    strict?: boolean;
+    waitFor?: ReadinessStrategy[];
+    waitTimeout?: number;
+    renderTimeout?: number;
+    // output format, inferred from the output file extension by the batch APIs when not set
+    format?: OutputFormat;
+    fullPage?: boolean;
+    clip?: { x: number, y: number, width: number, height: number };
+    quality?: number;
+    deviceScaleFactor?: number;
+    // css pixels, defaults to the window size
+    viewport?: { width: number, height: number, mobile?: boolean };
+    // css media type the page is rendered with, chrome prints with print styles by default
+    emulateMedia?: 'print' | 'screen';
+    // IANA timezone, e.g. 'Europe/Berlin'
+    timezoneId?: string;
+    // BCP 47 locale used by Intl and sent as Accept-Language, e.g. 'de-DE'
+    locale?: string;
+    prefersColorScheme?: 'light' | 'dark' | 'no-preference';
+    prefersReducedMotion?: 'reduce' | 'no-preference';
+    userAgent?: string;
+    // sent with requests to the origin of the rendered url, not to third-party hosts the page loads from
+    extraHeaders?: Record<string, string>;
+    cookies?: Protocol.Network.CookieParam[];
+    // Netscape cookies.txt or JSON file with cookies to set before navigation
+    cookieJar?: string;
+    // every render gets its own incognito browser context, so cookies, storage and service workers don't leak
+    isolation?: boolean;
+    // cookies and localStorage the isolated context starts with, or a JSON file with them, implies isolation
+    storageState?: StorageState | string;
+    // records the storage state after the render, a string also names the file it is written to, implies isolation
+    exportStorageState?: boolean | string;
+    basicAuth?: BasicAuthCredentials;
+    blockUrls?: string[];
+    allowHosts?: string[];
+    networkPolicy?: NetworkPolicy;
+    // Info dictionary entries written into the generated pdf
+    metadata?: PdfMetadata;
+    // AES-256 passwords and permissions of the generated pdf
+    encryption?: PdfEncryption;
+    // signs the generated pdf with a key from a PKCS#12 or PEM files
+    signature?: PdfSignature;
+    // scripts evaluated in every document before its own scripts, e.g. to set window.__REPORT_DATA__
+    evaluateOnNewDocument?: string[];
+    // stylesheets added and scripts evaluated once the page has loaded, scripts may return a promise to wait for
+    injectCss?: string[];
+    evaluate?: string[];
+    // called right before printing, with the client of the rendered page
+    beforePrint?: (client: CDP.Client) => Promise<void> | void;
+    // fail with a QualityGateError instead of printing a broken page
+    failOnPageError?: boolean;
+    failOnConsoleError?: boolean;
+    // responses with status >= 400 and failed requests, only for urls matching the patterns when given
+    failOnRequestError?: boolean | string[];
+    // checked against the generated pdf
+    minPages?: number;
+    maxPages?: number;
+    // retries of failed jobs in the batch APIs, none by default
+    retry?: RetryPolicy;
+    // freeze the page's clock and random numbers, disable animations and normalize the pdf's dates and id so
+    // identical content renders to identical bytes, encrypted pdfs still differ in their random keys
+    deterministic?: boolean;
+    // time the page's clock shows in deterministic mode, defaults to 2000-01-01T00:00:00Z
+    frozenTime?: number | string | Date;
+    // bookmarks built from the page's h1-h3 headings, by chrome where it supports generateDocumentOutline
+    outline?: boolean;
+    // structure tree for screen readers, needs a chrome version supporting generateTaggedPDF
+    tagged?: boolean;
+    // language of the document, e.g. 'en-US', tagged pdfs default to the lang attribute of the page's html element
+    lang?: string;
+    // archival output with an sRGB output intent and XMP metadata, fails with a PdfAConformanceError listing
+    // what keeps the document from conforming, e.g. fonts that aren't embedded
+    pdfa?: PdfAConformance;
 }
 
-type RenderOptions = Omit<Protocol.Page.PrintToPDFRequest, 'transferMode'>;
+type OutputFormat = 'pdf' | 'png' | 'jpeg' | 'webp';
 
-class StreamReader {
+const outputFormatExtensions: Record<string, OutputFormat> = {
+    '.pdf': 'pdf',
+    '.png': 'png',
+    '.jpg': 'jpeg',
+    '.jpeg': 'jpeg',
+    '.webp': 'webp',
+};
+
+type RenderOptions = Omit<Protocol.Page.PrintToPDFRequest, 'transferMode'> & {
+    // newer printToPDF parameters, ignored by chrome versions that don't know them
+    generateTaggedPDF?: boolean;
+    generateDocumentOutline?: boolean;
+};
+
+interface HtmlSource {
+    html: string;
+    // url the document pretends to be loaded from, relative assets are resolved against it
+    baseUrl?: string;
+}
+
+type RenderSource = string | HtmlSource;
+
+interface HtmlRenderOptions extends ConstructorOptions {
+    baseUrl?: string;
+}
+
+interface JobOverrides {
+    // overrides of the renderer's options for a single job, options controlling the chrome process are ignored
+    options?: ConstructorOptions;
+    // raw Page.printToPDF parameters, applied on top of the ones generated from options
+    pdfOptions?: RenderOptions;
+}
+
+type RenderJob = ({ url: string, pdf: string } | HtmlSource & { pdf: string }) & JobOverrides;
+
+// a section of a merged document, title is used for its bookmark
+type MergeJob = ({ url: string } | HtmlSource) & { title?: string };
+
+interface RenderTimings {
+    load?: number;
+    js?: number;
+    animations?: number;
+    print?: number;
+    total?: number;
+}
+
+interface RenderContext {
+    // tab to render in, the first page of the browser is used when omitted
+    targetId?: string;
+    // filled with the duration in ms of every phase that finished
+    timings?: RenderTimings;
+    signal?: AbortSignal;
+    // filled with every request that was refused by blockUrls, allowHosts or networkPolicy
+    deniedRequests?: DeniedRequest[];
+    // filled with cookies and localStorage after the render when exportStorageState is set
+    storageState?: StorageState;
+}
+
+interface IsolatedContext {
+    browser: CDP.Client;
+    browserContextId: string;
+    targetId: string;
+    storageState: StorageState;
+    dispose: () => Promise<void>;
+}
+
+interface RenderState {
+    phase: RenderPhase;
+    client?: CDP.Client;
+    deniedRequests: DeniedRequest[];
+    isolation?: IsolatedContext;
+}
+
+interface RenderJobResult {
+    url?: string;
+    pdf: string;
+    status: 'success' | 'failed';
+    error?: unknown;
+    size?: number;
+    timings: RenderTimings;
+    deniedRequests: DeniedRequest[];
+    // 1 unless the job was retried
+    attempts: number;
+    // set when exportStorageState is
+    storageState?: StorageState;
+}
+
+// calls onLine for every complete line written to the stream
+class LineReader {
     data: string;
 
-    constructor(stream: NodeJS.ReadableStream) {
+    constructor(stream: NodeJS.ReadableStream, onLine: (line: string) => void) {
         this.data = '';
         stream.on('data', (chunk) => {
-            this.data += chunk.toString();
+            const lines = (this.data + chunk.toString()).split('\n');
+            this.data = lines.pop()!;
+            lines.forEach(onLine);
+        });
+        stream.on('end', () => {
+            if (this.data) {
+                onLine(this.data);
+            }
         });
     }
 }
 
+// reads a protocol stream handle (e.g. from printToPDF with ReturnAsStream), closing handle and client when done
+class ProtocolStream extends Readable {
+    client: CDP.Client;
+    handle: string;
+    released: boolean;
+
+    constructor(client: CDP.Client, handle: string) {
+        super();
+        this.client = client;
+        this.handle = handle;
+        this.released = false;
+        // the client is given back once the pdf has been read, whether or not the consumer destroys the stream
+        this.once('end', () => this.release());
+    }
+
+    _read(size: number) {
+        this.readChunk(Math.max(size, 1024 * 1024)).catch((err) => this.destroy(err));
+    }
+
+    // an empty chunk doesn't mean the data is exhausted, only eof does
+    async readChunk(size: number) {
+        while (!this.destroyed) {
+            const {data, base64Encoded, eof} = await this.client.IO.read({handle: this.handle, size});
+            if (data.length > 0) {
+                this.push(Buffer.from(data, base64Encoded ? 'base64' : 'utf-8'));
+            }
+            if (eof) {
+                this.push(null);
+                return;
+            }
+            if (data.length > 0) {
+                return;
+            }
+        }
+    }
+
+    async release() {
+        if (this.released) {
+            return;
+        }
+        this.released = true;
+        try {
+            await this.client.IO.close({handle: this.handle});
+        } catch (e) {
+            // the handle is gone along with the tab
+        }
+        this.client.close();
+    }
+
+    _destroy(err: Error | null, callback: (error?: Error | null) => void) {
+        this.release().then(() => callback(err));
+    }
+}
+
 interface ThriveRenderPDFOptions {
+    // shorthand for waitFor: [{type: 'event', name: 'thrive.jsdone'}]
     delayUntilThriveEventFires?: boolean;
 }
 
@@ -56,6 +351,13 @@ interface Deferred<T> {
     reject: (err: any) => void;
 }
 
+declare global {
+    interface SymbolConstructor {
+        // part of the esnext.disposable lib of newer typescript versions, node has it since 18.18
+        readonly asyncDispose: unique symbol;
+    }
+}
+
 function defer<T>(): Deferred<T> {
     const result = {} as Deferred<T>;
     result.promise = new Promise((resolve, reject) => {
@@ -65,23 +367,56 @@ function defer<T>(): Deferred<T> {
     return result;
 }
 
-class RenderPDF {
+interface RenderPDF {
+    on<E extends keyof RenderEvents>(event: E, listener: (payload: RenderEvents[E]) => void): this;
+    once<E extends keyof RenderEvents>(event: E, listener: (payload: RenderEvents[E]) => void): this;
+    off<E extends keyof RenderEvents>(event: E, listener: (payload: RenderEvents[E]) => void): this;
+    emit<E extends keyof RenderEvents>(event: E, payload: RenderEvents[E]): boolean;
+    // await using renderer = new RenderPDF(), on runtimes that have Symbol.asyncDispose
+    [Symbol.asyncDispose](): Promise<void>;
+}
+
+// events of clones created by withOptions are emitted by the renderer they were created from
+class RenderPDF extends EventEmitter {
     options: ConstructorOptions;
+    logger: Logger;
     commandLineOptions: { windowSize?: [number, number] };
     chrome: ChildProcessWithoutNullStreams | null;
     host: string;
     port: number | undefined;
+    // set by killChrome, chrome exiting without it is a crash
+    chromeStopped: boolean;
+    // restart chrome when it crashes, while a batch is rendering
+    restartOnCrash: boolean;
+    restarting: Promise<void> | undefined;
+    // incremented by every restart, tabs of earlier generations are gone
+    chromeGeneration: number;
+    // rejected when the current chrome process exits unexpectedly, pending renders fail with it
+    chromeExited: Deferred<never> | undefined;
+    // temporary profile of the spawned chrome, removed once it exits
+    userDataDir: string | undefined;
+    starting: Promise<void> | undefined;
+    started: boolean;
+    // the renderer owning chrome, clones created by withOptions share it
+    owner: RenderPDF;
 
     constructor(options?: ConstructorOptions) {
+        super();
         this.options = {
             printLogs: def('printLogs', false),
             printErrors: def('printErrors', true),
+            logger: def('logger', undefined),
             chromeBinary: def('chromeBinary', undefined),
             chromeOptions: def('chromeOptions', []),
             remoteHost: def('remoteHost', undefined),
             remotePort: def('remotePort', 9222),
             noMargins: def('noMargins', false),
+            marginTop: def('marginTop', undefined),
+            marginBottom: def('marginBottom', undefined),
+            marginLeft: def('marginLeft', undefined),
+            marginRight: def('marginRight', undefined),
             landscape: def('landscape', undefined),
+            paperFormat: def('paperFormat', undefined),
             paperWidth: def('paperWidth', undefined),
             paperHeight: def('paperHeight', undefined),
             preferCSSPageSize: def('preferCSSPageSize', undefined),
@@ -91,21 +426,82 @@ class RenderPDF {
             displayHeaderFooter: def('displayHeaderFooter', false),
             headerTemplate: def('headerTemplate', undefined),
             footerTemplate: def('footerTemplate', undefined),
+            headerTemplateFile: def('headerTemplateFile', undefined),
+            footerTemplateFile: def('footerTemplateFile', undefined),
+            templateVariables: def('templateVariables', {}),
+            inlineTemplateAssets: def('inlineTemplateAssets', undefined),
+            templateStyles: def('templateStyles', undefined),
             jsTimeBudget: def('jsTimeBudget', 5000),
             animationTimeBudget: def('animationTimeBudget', 5000),
             traceFilename: def('traceFilename', undefined),
             logNetworkRequests: def('logNetworkRequests', false),
+            concurrency: def('concurrency', 1),
+            strict: def('strict', false),
+            waitFor: def('waitFor', []),
+            waitTimeout: def('waitTimeout', 30000),
+            renderTimeout: def('renderTimeout', undefined),
+            format: def('format', undefined),
+            fullPage: def('fullPage', false),
+            clip: def('clip', undefined),
+            quality: def('quality', undefined),
+            deviceScaleFactor: def('deviceScaleFactor', undefined),
+            viewport: def('viewport', undefined),
+            emulateMedia: def('emulateMedia', undefined),
+            timezoneId: def('timezoneId', undefined),
+            locale: def('locale', undefined),
+            prefersColorScheme: def('prefersColorScheme', undefined),
+            prefersReducedMotion: def('prefersReducedMotion', undefined),
+            userAgent: def('userAgent', undefined),
+            extraHeaders: def('extraHeaders', {}),
+            cookies: def('cookies', []),
+            cookieJar: def('cookieJar', undefined),
+            isolation: def('isolation', false),
+            storageState: def('storageState', undefined),
+            exportStorageState: def('exportStorageState', undefined),
+            basicAuth: def('basicAuth', undefined),
+            blockUrls: def('blockUrls', []),
+            allowHosts: def('allowHosts', []),
+            networkPolicy: def('networkPolicy', undefined),
+            metadata: def('metadata', undefined),
+            encryption: def('encryption', undefined),
+            signature: def('signature', undefined),
+            outline: def('outline', false),
+            tagged: def('tagged', false),
+            lang: def('lang', undefined),
+            pdfa: def('pdfa', undefined),
+            evaluateOnNewDocument: def('evaluateOnNewDocument', []),
+            injectCss: def('injectCss', []),
+            evaluate: def('evaluate', []),
+            beforePrint: def('beforePrint', undefined),
+            failOnPageError: def('failOnPageError', false),
+            failOnConsoleError: def('failOnConsoleError', false),
+            failOnRequestError: def('failOnRequestError', false),
+            minPages: def('minPages', undefined),
+            maxPages: def('maxPages', undefined),
+            retry: def('retry', undefined),
+            deterministic: def('deterministic', false),
+            frozenTime: def('frozenTime', undefined),
         };
 
         this.commandLineOptions = {
             windowSize: def('windowSize', undefined),
         };
+        this.logger = this.options.logger || consoleLogger(!!this.options.printLogs, !!this.options.printErrors);
 
         function def<K extends keyof ConstructorOptions>(key: K, defaultValue: ConstructorOptions[K]) {
             return options?.[key] === undefined ? defaultValue : options[key];
         }
 
         this.chrome = null;
+        this.chromeStopped = false;
+        this.restartOnCrash = false;
+        this.restarting = undefined;
+        this.chromeGeneration = 0;
+        this.chromeExited = undefined;
+        this.userDataDir = undefined;
+        this.starting = undefined;
+        this.started = false;
+        this.owner = this;
 
         if (this.options.remoteHost) {
             this.host = this.options.remoteHost;
@@ -131,162 +527,896 @@ class RenderPDF {
 
     static async generateSinglePdf(url: string, filename: string, options?: ConstructorOptions) {
         const renderer = new RenderPDF(options);
-        await renderer.connectToChrome();
+        await renderer.start();
         try {
-            const buff = await renderer.renderPdf(url, renderer.generatePdfOptions());
-            fs.writeFileSync(filename, buff);
-            renderer.log(`Saved ${filename}`);
-        } catch (e) {
-            renderer.error('error:', e);
+            const result = await renderer.renderJob({url, pdf: filename});
+            if (result.status === 'failed' && renderer.options.strict) {
+                throw new RenderJobError(result);
+            }
+            return result;
+        } finally {
+            await renderer.close();
         }
-        renderer.killChrome();
     }
 
-    static async generatePdfBuffer(url: string, options?: ConstructorOptions) {
+    static async generatePdfBuffer(url: string, options?: ConstructorOptions, signal?: AbortSignal) {
         const renderer = new RenderPDF(options);
-        await renderer.connectToChrome();
+        await renderer.start();
         try {
-            return await renderer.renderPdf(url, renderer.generatePdfOptions());
-        } catch (e) {
-            renderer.error('error:', e);
+            // there is no result to report a failure in, so it always rejects
+            return await renderer.renderPdf(url, renderer.generatePdfOptions(), {signal});
         } finally {
-            renderer.killChrome();
+            await renderer.close();
         }
     }
 
-    static async generateMultiplePdf(pairs: Array<{ url: string, pdf: string }>, options?: ConstructorOptions) {
+    static async generatePdfBufferFromHtml(html: string, options?: HtmlRenderOptions, signal?: AbortSignal) {
         const renderer = new RenderPDF(options);
-        await renderer.connectToChrome();
-        for (const job of pairs) {
-            try {
-                const buff = await renderer.renderPdf(job.url, renderer.generatePdfOptions());
+        await renderer.start();
+        try {
+            return await renderer.renderPdf({html, baseUrl: options?.baseUrl}, renderer.generatePdfOptions(), {signal});
+        } finally {
+            await renderer.close();
+        }
+    }
+
+    static async generateMergedPdf(sections: MergeJob[], filename: string, options?: ConstructorOptions) {
+        const renderer = new RenderPDF(options);
+        await renderer.start();
+        try {
+            const result = await renderer.renderMerged(sections, filename);
+            if (result.status === 'failed' && renderer.options.strict) {
+                throw new RenderJobError(result);
+            }
+            return result;
+        } finally {
+            await renderer.close();
+        }
+    }
+
+    static async generateMultiplePdf(pairs: RenderJob[], options?: ConstructorOptions) {
+        const renderer = new RenderPDF(options);
+        await renderer.start();
+        try {
+            return await renderer.renderJobs(pairs);
+        } finally {
+            await renderer.close();
+        }
+    }
+
+    async renderJobs(jobs: RenderJob[]): Promise<RenderJobResult[]> {
+        const results: RenderJobResult[] = new Array(jobs.length);
+        let next = 0;
+        let failure: RenderJobResult | undefined;
+        const workers = Math.max(1, Math.min(this.options.concurrency!, jobs.length));
+        // every worker renders in its own tab, so navigations don't interfere with each other
+        const tabs: Array<{ targetId: string, generation: number }> = [];
+        const worker = async () => {
+            let tab: { targetId: string, generation: number } | undefined;
+            // tabs are opened lazily and again after chrome was restarted
+            const target = async () => {
+                if (workers === 1) {
+                    return undefined;
+                }
+                if (!tab || tab.generation !== this.chromeGeneration) {
+                    tab = {targetId: await this.createTarget(), generation: this.chromeGeneration};
+                    tabs.push(tab);
+                }
+                return tab.targetId;
+            };
+            while (next < jobs.length && !failure) {
+                const index = next++;
+                const result = await this.renderJob(jobs[index], target);
+                results[index] = result;
+                if (result.status === 'failed' && this.options.strict && !failure) {
+                    failure = result;
+                }
+            }
+        };
+
+        if (workers > 1) {
+            this.log(`Rendering with ${workers} tabs`);
+        }
+        this.restartOnCrash = true;
+        try {
+            await Promise.all(Array.from({length: workers}, worker));
+        } finally {
+            this.restartOnCrash = false;
+            const open = tabs.filter((tab) => tab.generation === this.chromeGeneration);
+            await Promise.all(open.map((tab) => this.closeTarget(tab.targetId)));
+        }
+        return this.checkResults(results, failure);
+    }
+
+    checkResults(results: RenderJobResult[], failure: RenderJobResult | undefined) {
+        if (failure) {
+            throw new RenderJobError(failure, results.filter((result) => result !== undefined));
+        }
+        return results;
+    }
+
+    // target resolves to the tab to render in, a new one is opened by default
+    async renderJob(job: RenderJob, target: () => Promise<string | undefined> = async () => undefined): Promise<RenderJobResult> {
+        const renderer = job.options ? this.withOptions(job.options) : this;
+        const policy = renderer.options.retry;
+        for (let attempt = 1; ; attempt++) {
+            this.owner.emit('jobStart', {url: 'url' in job ? job.url : undefined, pdf: job.pdf, attempt});
+            const result = await this.renderJobAttempt(job, renderer, target);
+            result.attempts = attempt;
+            if (result.status === 'success' || attempt >= maxAttempts(policy) || !isRetryable(result.error, policy)) {
+                return this.endJob(result);
+            }
+            const delay = retryDelay(policy, attempt);
+            this.log(`Retrying ${job.pdf} in ${delay}ms, attempt ${attempt + 1} of ${maxAttempts(policy)}`, {pdf: job.pdf, attempt, delay});
+            await this.wait(delay);
+            await this.recoverChrome();
+        }
+    }
+
+    endJob(result: RenderJobResult) {
+        this.owner.emit('jobEnd', result);
+        return result;
+    }
+
+    async renderJobAttempt(job: RenderJob, renderer: RenderPDF, target: () => Promise<string | undefined>): Promise<RenderJobResult> {
+        const url = 'url' in job ? job.url : undefined;
+        const timings: RenderTimings = {};
+        const deniedRequests: DeniedRequest[] = [];
+        const start = process.hrtime();
+        try {
+            // isolated renders open a tab in their own context
+            const targetId = renderer.isolated() ? undefined : await target();
+            const context: RenderContext = {targetId, timings, deniedRequests};
+            const source = 'html' in job ? {html: job.html, baseUrl: job.baseUrl} : job.url;
+            const format = renderer.outputFormat(job.pdf);
+            let size: number;
+            if (format === 'pdf') {
+                const pdfOptions = {...renderer.generatePdfOptions(), ...job.pdfOptions};
+                const stream = await renderer.renderPdfStream(source, pdfOptions, context);
+                const file = fs.createWriteStream(job.pdf);
+                await promisify(pipeline)(stream, file);
+                size = file.bytesWritten;
+            } else {
+                const buff = await renderer.renderScreenshot(source, format, context);
                 fs.writeFileSync(job.pdf, buff);
-                renderer.log(`Saved ${job.pdf}`);
+                size = buff.length;
+            }
+            this.log(`Saved ${job.pdf}`);
+            const exportStorageState = renderer.options.exportStorageState;
+            if (typeof exportStorageState === 'string' && context.storageState) {
+                writeStorageState(exportStorageState, context.storageState);
+                this.log(`Saved storage state to ${exportStorageState}`);
+            }
+            timings.total = Math.round(this.getPerfTime(start));
+            const result: RenderJobResult = {url, pdf: job.pdf, status: 'success', size, timings, deniedRequests, attempts: 1};
+            if (context.storageState) {
+                result.storageState = context.storageState;
+            }
+            return result;
+        } catch (e) {
+            this.error(`Failed to render ${job.pdf}`, {url, pdf: job.pdf, error: e});
+            timings.total = Math.round(this.getPerfTime(start));
+            return {url, pdf: job.pdf, status: 'failed', error: e, timings, deniedRequests, attempts: 1};
+        }
+    }
+
+    // renderer with some options replaced, attached to the same chrome as this one
+    withOptions(overrides: ConstructorOptions): RenderPDF {
+        const options: ConstructorOptions = {...this.options};
+        for (const key of Object.keys(overrides) as Array<keyof ConstructorOptions>) {
+            if (overrides[key] !== undefined) {
+                (options as Record<string, unknown>)[key] = overrides[key];
+            }
+        }
+        // a template and a template file are one setting, overriding either replaces both
+        if (overrides.headerTemplate !== undefined || overrides.headerTemplateFile !== undefined) {
+            options.headerTemplate = overrides.headerTemplate;
+            options.headerTemplateFile = overrides.headerTemplateFile;
+        }
+        if (overrides.footerTemplate !== undefined || overrides.footerTemplateFile !== undefined) {
+            options.footerTemplate = overrides.footerTemplate;
+            options.footerTemplateFile = overrides.footerTemplateFile;
+        }
+        const renderer = new RenderPDF({
+            ...options,
+            chromeBinary: this.options.chromeBinary,
+            chromeOptions: this.options.chromeOptions,
+            remoteHost: this.options.remoteHost,
+            remotePort: this.options.remotePort,
+            windowSize: this.commandLineOptions.windowSize,
+        });
+        renderer.chrome = this.chrome;
+        renderer.owner = this.owner;
+        renderer.host = this.host;
+        renderer.port = this.port;
+        return renderer;
+    }
+
+    async renderMerged(sections: MergeJob[], filename: string): Promise<RenderJobResult> {
+        const timings: RenderTimings = {};
+        const deniedRequests: DeniedRequest[] = [];
+        const start = process.hrtime();
+        this.owner.emit('jobStart', {pdf: filename, attempt: 1});
+        try {
+            const rendered: MergeSection[] = [];
+            let lang: string | undefined;
+            for (const section of sections) {
+                const source = 'html' in section ? {html: section.html, baseUrl: section.baseUrl} : section.url;
+                // metadata belongs to the merged document only
+                const pdf = await this.render(source, {}, {deniedRequests}, async (Page, client) => {
+                    // the first section decides the language of the whole document
+                    lang = lang || await this.documentLanguage(client);
+                    const headings = await this.outlineHeadings(client);
+                    const printed = await Page.printToPDF(this.generatePdfOptions());
+                    return this.outlinePdf(Buffer.from(printed.data, 'base64'), headings);
+                });
+                rendered.push({pdf, title: section.title});
+            }
+            let buff = await mergePdfs(rendered, this.options.metadata);
+            const violations = await this.pageCountViolations(buff);
+            if (violations.length > 0) {
+                throw new QualityGateError(violations);
+            }
+            if (this.options.deterministic) {
+                buff = await normalizePdf(buff, this.deterministicDate());
+            }
+            buff = await this.conformPdf(buff, lang);
+            buff = await this.securePdf(buff);
+            fs.writeFileSync(filename, buff);
+            this.log(`Saved ${filename}`);
+            timings.total = Math.round(this.getPerfTime(start));
+            return this.endJob({pdf: filename, status: 'success', size: buff.length, timings, deniedRequests, attempts: 1});
+        } catch (e) {
+            this.error(`Failed to render ${filename}`, {pdf: filename, error: e});
+            timings.total = Math.round(this.getPerfTime(start));
+            return this.endJob({pdf: filename, status: 'failed', error: e, timings, deniedRequests, attempts: 1});
+        }
+    }
+
+    isolated() {
+        return !!(this.options.isolation || this.options.storageState || this.options.exportStorageState);
+    }
+
+    // opens an incognito context with a single tab, seeded with storageState
+    async createIsolatedContext(): Promise<IsolatedContext> {
+        const storageState = readStorageState(this.options.storageState || {cookies: [], origins: []});
+        const browser = await CDP({host: this.host, port: this.port});
+        try {
+            const {browserContextId} = await browser.Target.createBrowserContext({});
+            let disposed = false;
+            const dispose = async () => {
+                if (disposed) {
+                    return;
+                }
+                disposed = true;
+                try {
+                    // closes every tab of the context along with its storage
+                    await browser.Target.disposeBrowserContext({browserContextId});
+                } catch (e) {
+                    this.error(`Failed to dispose browser context ${browserContextId}`, {error: e});
+                } finally {
+                    browser.close();
+                }
+            };
+            try {
+                if (storageState.cookies.length > 0) {
+                    await browser.Storage.setCookies({cookies: storageState.cookies, browserContextId});
+                }
+                const {targetId} = await browser.Target.createTarget({url: 'about:blank', browserContextId});
+                return {browser, browserContextId, targetId, storageState, dispose};
             } catch (e) {
-                renderer.error('error:', e);
+                await dispose();
+                throw e;
             }
+        } catch (e) {
+            browser.close();
+            throw e;
+        }
+    }
+
+    async createTarget(): Promise<string> {
+        const client = await CDP({host: this.host, port: this.port});
+        try {
+            const {targetId} = await client.Target.createTarget({url: 'about:blank'});
+            return targetId;
+        } finally {
+            client.close();
         }
-        renderer.killChrome();
     }
 
-    async renderPdf(url: string, options: RenderOptions & ThriveRenderPDFOptions) {
+    async closeTarget(targetId: string) {
         const client = await CDP({host: this.host, port: this.port});
         try {
-            this.log(`Opening ${url}`);
-            const {Page, Emulation, LayerTree, Runtime, Tracing, Network} = client;
-            await Page.enable();
-            await LayerTree.enable();
-            await Runtime.enable();
-
-            const traceFilename = this.options.traceFilename;
-            const traceFileWritten = defer<void>();
-            if (traceFilename) {
-                await Tracing.start({
-                    "traceConfig": {
-                        "includedCategories": [
-                            "-*",
-                            "devtools.timeline",
-                            "v8.execute",
-                            "disabled-by-default-devtools.timeline",
-                            "disabled-by-default-devtools.timeline.frame",
-                            "toplevel",
-                            "blink.console",
-                            "blink.user_timing",
-                            "latencyInfo",
-                            "disabled-by-default-devtools.timeline",
-                            "disabled-by-default-devtools.timeline.frame",
-                            "disabled-by-default-devtools.timeline.stack",
-                            "disabled-by-default-devtools.screenshot",
-                            "disabled-by-default-v8.cpu_profiler"
-                        ],
-                        "excludedCategories": ["-*"]
+            await client.Target.closeTarget({targetId});
+        } catch (e) {
+            this.error(`Failed to close tab ${targetId}`, {error: e});
+        } finally {
+            client.close();
+        }
+    }
+
+    async renderPdf(source: RenderSource, options: RenderOptions & ThriveRenderPDFOptions, context: RenderContext = {}) {
+        return this.render(source, options, context, async (Page, client, quality) => {
+            const lang = await this.documentLanguage(client);
+            const headings = await this.outlineHeadings(client);
+            const pdf = Buffer.from((await Page.printToPDF(options)).data, 'base64');
+            // reported together with what went wrong in the page, before the pdf is post-processed
+            quality.add(await this.pageCountViolations(pdf));
+            quality.check();
+            return this.postProcess(await this.outlinePdf(pdf, headings), lang);
+        });
+    }
+
+    // the headings bookmarks are built from when chrome can't generate the outline itself
+    async outlineHeadings(client: CDP.Client): Promise<OutlineHeading[] | undefined> {
+        if (!this.options.outline) {
+            return undefined;
+        }
+        const {result} = await client.Runtime.evaluate({expression: headingsScript, returnByValue: true});
+        return result.value || [];
+    }
+
+    async outlinePdf(pdf: Buffer, headings?: OutlineHeading[]): Promise<Buffer> {
+        if (!headings) {
+            return pdf;
+        }
+        const outlined = await addHeadingOutline(pdf, headings);
+        if (!outlined) {
+            this.warn('Chrome wrote neither an outline nor destinations for the headings, the pdf has no bookmarks');
+            return pdf;
+        }
+        return outlined;
+    }
+
+    async pageCountViolations(pdf: Buffer): Promise<QualityViolation[]> {
+        return hasPageCountGate(this.options) ? pageCountViolations(await countPages(pdf), this.options) : [];
+    }
+
+    async postProcess(pdf: Buffer, lang?: string): Promise<Buffer> {
+        if (this.options.metadata) {
+            pdf = await applyMetadata(pdf, this.options.metadata);
+        }
+        if (this.options.deterministic) {
+            pdf = await normalizePdf(pdf, this.deterministicDate());
+        }
+        pdf = await this.conformPdf(pdf, lang);
+        return this.securePdf(pdf);
+    }
+
+    // the lang option, or for tagged pdfs the language the page declares
+    async documentLanguage(client: CDP.Client): Promise<string | undefined> {
+        if (this.options.lang || !this.options.tagged) {
+            return this.options.lang;
+        }
+        const {result} = await client.Runtime.evaluate({expression: 'document.documentElement.lang', returnByValue: true});
+        return result.value || undefined;
+    }
+
+    // language and PDF/A conformance, the XMP packet has to see the final Info dictionary
+    async conformPdf(pdf: Buffer, lang?: string): Promise<Buffer> {
+        if (lang) {
+            pdf = await applyLanguage(pdf, lang);
+        }
+        if (this.options.pdfa) {
+            pdf = await convertToPdfA(pdf, this.options.pdfa, {
+                date: this.options.deterministic ? this.deterministicDate() : new Date(),
+            });
+        }
+        return pdf;
+    }
+
+    // encryption and signing come last, nothing may change the document afterwards
+    async securePdf(pdf: Buffer): Promise<Buffer> {
+        if (!this.options.encryption && !this.options.signature) {
+            return pdf;
+        }
+        return securePdf(pdf, {
+            encryption: this.options.encryption,
+            signature: this.options.signature,
+            date: this.options.deterministic ? this.deterministicDate() : new Date(),
+        });
+    }
+
+    deterministicDate() {
+        return this.options.metadata?.creationDate || new Date(frozenTime(this.options.frozenTime));
+    }
+
+    // same as renderPdf, but the pdf is transferred in chunks instead of being held in memory as a whole
+    async renderPdfStream(source: RenderSource, options: RenderOptions & ThriveRenderPDFOptions, context: RenderContext = {}): Promise<Readable> {
+        const started = Date.now();
+        if (this.options.metadata || this.options.deterministic || this.options.encryption || this.options.signature
+            || this.options.tagged || this.options.lang || this.options.pdfa || this.options.outline
+            || hasPageCountGate(this.options)) {
+            // post-processing, counting pages and adding bookmarks need the whole document
+            return Readable.from([await this.renderPdf(source, options, context)]);
+        }
+        const stream = await this.render(source, options, context, async (Page, client) => {
+            const pdf = await Page.printToPDF({...options, transferMode: 'ReturnAsStream'});
+            return new ProtocolStream(client, pdf.stream!);
+        }, true);
+        const signal = context.signal;
+        if (signal) {
+            const onAbort = () => stream.destroy(new RenderAbortedError('print'));
+            signal.addEventListener('abort', onAbort);
+            stream.on('close', () => signal.removeEventListener('abort', onAbort));
+        }
+        if (this.options.renderTimeout) {
+            // the transfer counts towards the timeout, a consumer that stops reading would keep the tab busy forever
+            const renderTimeout = this.options.renderTimeout;
+            const timer = setTimeout(
+                () => stream.destroy(new RenderTimeoutError('print', renderTimeout)),
+                Math.max(0, renderTimeout - (Date.now() - started)),
+            );
+            stream.on('close', () => clearTimeout(timer));
+        }
+        return stream;
+    }
+
+    async renderScreenshot(source: RenderSource, format: Exclude<OutputFormat, 'pdf'>, context: RenderContext = {}) {
+        return this.render(source, {}, context, async (Page) => {
+            const params: Protocol.Page.CaptureScreenshotRequest = {format};
+            if (format !== 'png' && this.options.quality !== undefined) {
+                params.quality = this.options.quality;
+            }
+            if (this.options.clip) {
+                params.clip = {...this.options.clip, scale: 1};
+                params.captureBeyondViewport = true;
+            } else if (this.options.fullPage) {
+                const metrics = await Page.getLayoutMetrics();
+                const {width, height} = metrics.cssContentSize || metrics.contentSize;
+                params.clip = {x: 0, y: 0, width: Math.ceil(width), height: Math.ceil(height), scale: 1};
+                params.captureBeyondViewport = true;
+            }
+            const screenshot = await Page.captureScreenshot(params);
+            return Buffer.from(screenshot.data, 'base64');
+        });
+    }
+
+    // the format option, else the one the file extension names, pdf without either
+    outputFormat(filename = ''): OutputFormat {
+        if (this.options.format) {
+            return this.options.format;
+        }
+        const extension = path.extname(filename).toLowerCase();
+        return outputFormatExtensions[extension] || 'pdf';
+    }
+
+    // when keepClient is set the printed result is a stream that takes over the CDP client and is responsible for closing
+    // it, an isolated context is disposed once the stream has closed
+    async render<T>(
+        source: RenderSource,
+        options: RenderOptions & ThriveRenderPDFOptions,
+        context: RenderContext,
+        print: (Page: CDP.Client['Page'], client: CDP.Client, quality: QualityGate) => Promise<T>,
+        keepClient = false,
+    ): Promise<T> {
+        const timings = context.timings || {};
+        const state: RenderState = {phase: 'load', deniedRequests: context.deniedRequests || []};
+        const interruption = this.watchInterruption(state, context.signal);
+        try {
+            return await Promise.race([
+                interruption.promise,
+                (async () => {
+                    this.owner.checkAlive();
+                    let targetId = context.targetId;
+                    if (this.isolated()) {
+                        state.isolation = await this.createIsolatedContext();
+                        if (interruption.interrupted) {
+                            await state.isolation.dispose();
+                            return interruption.promise;
+                        }
+                        targetId = state.isolation.targetId;
                     }
-                });
+                    const client = await CDP({host: this.host, port: this.port, target: targetId});
+                    state.client = client;
+                    if (interruption.interrupted) {
+                        client.close();
+                        return interruption.promise;
+                    }
+                    // pending events would never fire when chrome goes away
+                    const disconnected = new Promise<never>((resolve, reject) => {
+                        client.on('disconnect', () => reject(new ChromeDisconnectedError()));
+                    });
+                    disconnected.catch(() => undefined);
+                    const exited = this.owner.chromeExited?.promise || new Promise<never>(() => undefined);
+                    let printed = false;
+                    try {
+                        const isolation = state.isolation;
+                        const exportState = isolation && this.options.exportStorageState
+                            ? async (Page: CDP.Client['Page'], client: CDP.Client, quality: QualityGate) => {
+                                const result = await print(Page, client, quality);
+                                context.storageState = await collectStorageState(
+                                    isolation.browser, isolation.browserContextId, client, isolation.storageState.origins);
+                                return result;
+                            }
+                            : print;
+                        const result = await Promise.race([
+                            this.renderPage(client, source, options, timings, state, exportState),
+                            disconnected,
+                            exited,
+                        ]);
+                        printed = true;
+                        if (keepClient && isolation) {
+                            // the tab has to stay open until the pdf has been transferred
+                            state.isolation = undefined;
+                            finished(result as unknown as Readable, () => isolation.dispose());
+                        }
+                        return result;
+                    } finally {
+                        if (!interruption.interrupted && !(keepClient && printed)) {
+                            client.close();
+                        }
+                    }
+                })(),
+            ]);
+        } finally {
+            interruption.dispose();
+            await state.isolation?.dispose();
+        }
+    }
 
-                const traces: unknown[] = [];
-                Tracing.on('dataCollected', (e) => {
-                    traces.push(...e.value);
-                })
-                Tracing.on('tracingComplete', (e) => {
-                    this.log(`Writing traces to ${traceFilename}`);
-                    fs.writeFileSync(traceFilename, JSON.stringify({ "traceEvents": traces }), 'utf-8')
-                    traceFileWritten.resolve();
-                })
+    // rejects once the render timeout expires or the signal is aborted, the page is reset before rejecting
+    watchInterruption(state: RenderState, signal?: AbortSignal) {
+        const interrupted = defer<never>();
+        const interruption = {
+            promise: interrupted.promise,
+            interrupted: false,
+            dispose: () => {
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                signal?.removeEventListener('abort', onAbort);
+            },
+        };
+        const interrupt = async (error: Error) => {
+            if (interruption.interrupted) {
+                return;
+            }
+            interruption.interrupted = true;
+            interruption.dispose();
+            if (state.client) {
+                await this.resetPage(state.client);
+                state.client.close();
             }
+            interrupted.reject(error);
+        };
+        const onAbort = () => interrupt(new RenderAbortedError(state.phase));
+        let timer: NodeJS.Timeout | undefined;
+        if (this.options.renderTimeout) {
+            const renderTimeout = this.options.renderTimeout;
+            timer = setTimeout(() => interrupt(new RenderTimeoutError(state.phase, renderTimeout)), renderTimeout);
+        }
+        if (signal?.aborted) {
+            onAbort();
+        } else {
+            signal?.addEventListener('abort', onAbort);
+        }
+        return interruption;
+    }
 
-            if (this.options.printLogs) {
-                Runtime.on('consoleAPICalled', (event) => {
-                    console.log(`Page console.${event.type}`, event.args)
-                });
-                Runtime.on('exceptionThrown', (event) => {
-                    console.log('Page threw exception', event.exceptionDetails);
-                });
+    // leaves the tab on a blank page so a hung document doesn't keep running or affect the next render
+    async resetPage(client: CDP.Client) {
+        const {Page} = client;
+        try {
+            await Promise.race([
+                (async () => {
+                    await Page.stopLoading();
+                    await Page.navigate({url: 'about:blank'});
+                })(),
+                this.wait(1000),
+            ]);
+        } catch (e) {
+            this.error('Failed to reset page after interrupted render', {error: e});
+        }
+    }
+
+    async renderPage<T>(
+        client: CDP.Client,
+        source: RenderSource,
+        options: RenderOptions & ThriveRenderPDFOptions,
+        timings: RenderTimings,
+        state: RenderState,
+        print: (Page: CDP.Client['Page'], client: CDP.Client, quality: QualityGate) => Promise<T>,
+    ) {
+        if (typeof source === 'string') {
+            this.log(`Opening ${source}`);
+        } else {
+            this.log(`Opening html document${source.baseUrl ? ` as ${source.baseUrl}` : ''}`);
+        }
+        const {Page, Emulation, LayerTree, Runtime, Tracing, Network} = client;
+        await Page.enable();
+        await LayerTree.enable();
+        await Runtime.enable();
+
+        await this.emulate(Emulation);
+
+        const quality = new QualityGate(client, this.options);
+        await quality.enable();
+
+        const traceFilename = this.options.traceFilename;
+        const traceFileWritten = defer<void>();
+        if (traceFilename) {
+            await Tracing.start({
+                "traceConfig": {
+                    "includedCategories": [
+                        "-*",
+                        "devtools.timeline",
+                        "v8.execute",
+                        "disabled-by-default-devtools.timeline",
+                        "disabled-by-default-devtools.timeline.frame",
+                        "toplevel",
+                        "blink.console",
+                        "blink.user_timing",
+                        "latencyInfo",
+                        "disabled-by-default-devtools.timeline",
+                        "disabled-by-default-devtools.timeline.frame",
+                        "disabled-by-default-devtools.timeline.stack",
+                        "disabled-by-default-devtools.screenshot",
+                        "disabled-by-default-v8.cpu_profiler"
+                    ],
+                    "excludedCategories": ["-*"]
+                }
+            });
+
+            const traces: unknown[] = [];
+            Tracing.on('dataCollected', (e) => {
+                traces.push(...e.value);
+            })
+            Tracing.on('tracingComplete', (e) => {
+                this.log(`Writing traces to ${traceFilename}`);
+                fs.writeFileSync(traceFilename, JSON.stringify({ "traceEvents": traces }), 'utf-8')
+                traceFileWritten.resolve();
+            })
+        }
+
+        Runtime.on('consoleAPICalled', (event) => {
+            const message = consoleEvent(event);
+            this.debug(`Page console.${message.type}: ${message.text}`, {type: message.type, args: message.args});
+            this.owner.emit('console', message);
+        });
+        Runtime.on('exceptionThrown', (event) => {
+            const exception = exceptionEvent(event);
+            this.debug(`Page threw exception: ${exception.message}`, {...exception});
+            this.owner.emit('pageError', exception);
+        });
+
+        if (this.options.logNetworkRequests || this.owner.listenerCount('request') > 0 || this.owner.listenerCount('response') > 0) {
+            await Network.enable({});
+
+            const startTimes = new Map<string, number>()
+            Network.on('requestWillBeSent', (e) => {
+                startTimes.set(e.requestId, e.timestamp);
+                const request = {requestId: e.requestId, url: e.request.url, method: e.request.method};
+                if (this.options.logNetworkRequests) {
+                    this.debug(`Request for ${e.request.url}`, {...request});
+                }
+                this.owner.emit('request', request);
+            })
+            Network.on('responseReceived', (e) => {
+                const started = startTimes.get(e.requestId);
+                const duration = started === undefined ? undefined : Math.round((e.timestamp - started) * 1000 * 1000) / 1000;
+                const response = {requestId: e.requestId, url: e.response.url, status: e.response.status, duration};
+                if (this.options.logNetworkRequests) {
+                    this.debug(`Response for ${e.response.url} (status=${e.response.status}; duration=${duration}ms)`, {...response});
+                }
+                this.owner.emit('response', response);
+            })
+        }
+
+        const strategies = [...this.options.waitFor!];
+        if (options.delayUntilThriveEventFires) {
+            strategies.push({type: 'event', name: 'thrive.jsdone'});
+        }
+        const readiness = new ReadinessWaiter(client, strategies, this.options.waitTimeout!);
+        await readiness.prepare();
+
+        const newDocumentScripts = [...this.options.evaluateOnNewDocument!];
+        if (state.isolation && state.isolation.storageState.origins.length > 0) {
+            newDocumentScripts.unshift(seedLocalStorageScript(state.isolation.storageState.origins));
+        }
+        if (this.options.deterministic) {
+            // runs first, so the other scripts see the frozen clock too
+            newDocumentScripts.unshift(deterministicScript(frozenTime(this.options.frozenTime)));
+        }
+        const newDocumentScriptIds: string[] = [];
+        for (const source of newDocumentScripts) {
+            const {identifier} = await Page.addScriptToEvaluateOnNewDocument({source});
+            newDocumentScriptIds.push(identifier);
+        }
+
+        const documentUrl = typeof source === 'string' ? source : source.baseUrl;
+        await this.prepareRequests(client, documentUrl);
+        const interceptor = new RequestInterceptor(client, {
+            document: typeof source !== 'string' && source.baseUrl ? {url: source.baseUrl, html: source.html} : undefined,
+            blockUrls: this.options.blockUrls,
+            allowHosts: this.options.allowHosts,
+            basicAuth: this.options.basicAuth,
+            policy: this.options.networkPolicy,
+            headers: this.options.extraHeaders,
+            documentUrl,
+        }, (message, fields) => this.error(message, fields), state.deniedRequests);
+        await interceptor.enable();
+
+        let loaded: Promise<void>;
+        if (typeof source === 'string') {
+            loaded = new Promise<void>((resolve) => Page.on('loadEventFired', () => resolve()));
+            await this.navigate(Page, source);
+        } else if (source.baseUrl) {
+            loaded = new Promise<void>((resolve) => Page.on('loadEventFired', () => resolve()));
+            await this.navigate(Page, source.baseUrl);
+        } else {
+            // start from an empty page, otherwise the content would replace whatever the tab showed before
+            const blankLoaded = new Promise<void>((resolve) => Page.on('loadEventFired', () => resolve()));
+            await Page.navigate({url: 'about:blank'});
+            await blankLoaded;
+
+            loaded = new Promise<void>((resolve) => Page.on('loadEventFired', () => resolve()));
+            const {frameTree} = await Page.getFrameTree();
+            await Page.setDocumentContent({frameId: frameTree.frame.id, html: source.html});
+            // the content replaces the document the scripts were evaluated for, but keeps its window
+            if (this.options.deterministic) {
+                await Runtime.evaluate({expression: disableAnimationsScript});
             }
+        }
+        let jsDone: Promise<void>;
+        if (strategies.length > 0) {
+            jsDone = readiness.wait();
+            // rejections are handled once the js phase is awaited, after the page has loaded
+            jsDone.catch(() => undefined);
+        } else {
+            jsDone = new Promise<void>((resolve) => Emulation.on('virtualTimeBudgetExpired', async () => resolve()));
+        }
+        await Emulation.setVirtualTimePolicy({
+            policy: 'pauseIfNetworkFetchesPending',
+            budget: this.options.jsTimeBudget,
+            initialVirtualTime: this.options.deterministic ? frozenTime(this.options.frozenTime) / 1000 : undefined,
+        });
 
-            if (this.options.logNetworkRequests) {
-                await Network.enable({});
-
-                const startTimes = new Map<string, number>()
-                Network.on('requestWillBeSent', (e) => {
-                    startTimes.set(e.requestId, e.timestamp);
-                    console.log('Request for', e.request.url);
-                })
-                Network.on('responseReceived', (e) => {
-                    const duration = e.timestamp - startTimes.get(e.requestId)!;
-                    const durationMs = Math.round(duration * 1000 * 1000) / 1000;
-                    console.log('Response for', e.response.url, `(status=${e.response.status}; duration=${durationMs}ms)`);
-                })
-            }
-
-            const loaded = new Promise<void>((resolve) => Page.on('loadEventFired', () => resolve()));
-
-            await Page.navigate({url});
-            let jsDone: Promise<void> | ReturnType<typeof Runtime.evaluate>;
-            if (options.delayUntilThriveEventFires) {
-                jsDone = Runtime.evaluate({
-                    awaitPromise: true,
-                    expression: `
-                        new Promise((resolve, reject) => {
-                            window.addEventListener('thrive.jsdone', resolve, { once: true });
-                        })`,
-                    });
-            } else {
-                jsDone = new Promise<void>((resolve) => Emulation.on('virtualTimeBudgetExpired', async () => resolve()));
+        state.phase = 'load';
+        timings.load = await this.profileScope('load', 'Wait for load', async () => {
+            await loaded;
+            for (const css of this.options.injectCss!) {
+                await this.evaluate(Runtime, `(() => {
+                    const style = document.createElement('style');
+                    style.textContent = ${JSON.stringify(css)};
+                    (document.head || document.documentElement).appendChild(style);
+                })()`);
+            }
+            for (const script of this.options.evaluate!) {
+                await this.evaluate(Runtime, script);
             }
-            await Emulation.setVirtualTimePolicy({policy: 'pauseIfNetworkFetchesPending', budget: this.options.jsTimeBudget});
+        });
+
+        state.phase = 'js';
+        timings.js = await this.profileScope('js', 'Wait for js execution', async () => {
+            await jsDone;
+        });
 
-            await this.profileScope('Wait for load', async () => {
-                await loaded;
+        state.phase = 'animations';
+        timings.animations = await this.profileScope('animations', 'Wait for animations', async () => {
+            let maxTimeout;
+            await new Promise((resolve) => {
+                maxTimeout = setTimeout(resolve, this.options.animationTimeBudget); // max waiting time
+                let timeout = setTimeout(resolve, 100);
+                LayerTree.on('layerPainted', () => {
+                    clearTimeout(timeout);
+                    timeout = setTimeout(resolve, 100);
+                });
             });
+            clearTimeout(maxTimeout);
+        });
+
+        state.phase = 'print';
+        let printed!: T;
+        timings.print = await this.profileScope('print', 'Print pdf', async () => {
+            if (this.options.beforePrint) {
+                await this.options.beforePrint(client);
+            }
+            printed = await print(Page, client, quality);
+        });
+        // errors raised by beforePrint count as well
+        quality.check();
+
+        // the tab is reused by later renders
+        for (const identifier of newDocumentScriptIds) {
+            await Page.removeScriptToEvaluateOnNewDocument({identifier});
+        }
+
+        if (this.options.traceFilename) {
+            await Tracing.end();
+            await traceFileWritten.promise;
+        }
+        return printed;
+    }
+
+    async evaluate(Runtime: CDP.Client['Runtime'], expression: string) {
+        const {exceptionDetails} = await Runtime.evaluate({expression, awaitPromise: true});
+        if (exceptionDetails) {
+            const description = exceptionDetails.exception?.description || exceptionDetails.text;
+            throw new Error(`Injected script failed: ${description}`);
+        }
+    }
 
-            await this.profileScope('Wait for js execution', async () => {
-                await jsDone;
+    // overrides end with the client's session, so only the ones asked for are set, older chromes lack some methods
+    async emulate(Emulation: CDP.Client['Emulation']) {
+        const {viewport, deviceScaleFactor} = this.options;
+        if (viewport !== undefined || deviceScaleFactor !== undefined) {
+            await Emulation.setDeviceMetricsOverride({
+                width: viewport?.width || 0,
+                height: viewport?.height || 0,
+                deviceScaleFactor: deviceScaleFactor || 0,
+                mobile: !!viewport?.mobile,
             });
+        }
 
-            await this.profileScope('Wait for animations', async () => {
-                let maxTimeout;
-                await new Promise((resolve) => {
-                    maxTimeout = setTimeout(resolve, this.options.animationTimeBudget); // max waiting time
-                    let timeout = setTimeout(resolve, 100);
-                    LayerTree.on('layerPainted', () => {
-                        clearTimeout(timeout);
-                        timeout = setTimeout(resolve, 100);
-                    });
-                });
-                clearTimeout(maxTimeout);
+        const features: Protocol.Emulation.MediaFeature[] = [];
+        if (this.options.prefersColorScheme !== undefined) {
+            features.push({name: 'prefers-color-scheme', value: this.options.prefersColorScheme});
+        }
+        if (this.options.prefersReducedMotion !== undefined) {
+            features.push({name: 'prefers-reduced-motion', value: this.options.prefersReducedMotion});
+        }
+        if (this.options.emulateMedia !== undefined || features.length > 0) {
+            await Emulation.setEmulatedMedia({media: this.options.emulateMedia || '', features});
+        }
+
+        if (this.options.timezoneId !== undefined) {
+            await Emulation.setTimezoneOverride({timezoneId: this.options.timezoneId});
+        }
+        if (this.options.locale !== undefined) {
+            await Emulation.setLocaleOverride({locale: this.options.locale});
+        }
+        if (this.options.userAgent !== undefined || this.options.locale !== undefined) {
+            await Emulation.setUserAgentOverride({
+                // an empty user agent keeps chrome's own
+                userAgent: this.options.userAgent || '',
+                acceptLanguage: this.options.locale,
             });
+        }
+    }
 
-            const pdf = await Page.printToPDF(options);
-            const buff = Buffer.from(pdf.data, 'base64');
+    async navigate(Page: CDP.Client['Page'], url: string) {
+        const {errorText} = await Page.navigate({url});
+        if (errorText) {
+            throw new NavigationError(url, errorText);
+        }
+    }
 
-            if (this.options.traceFilename) {
-                await Tracing.end();
-                await traceFileWritten.promise;
-            }
-            return buff;
-        } finally {
-            client.close();
+    // sets the cookies, documentUrl is used for the ones that don't specify where they belong
+    async prepareRequests(client: CDP.Client, documentUrl?: string) {
+        const {Network} = client;
+        const cookies = [...this.options.cookies!];
+        if (this.options.cookieJar) {
+            cookies.push(...readCookieJar(this.options.cookieJar));
+        }
+        if (cookies.length === 0) {
+            return;
         }
+        await Network.enable({});
+        await Network.setCookies({
+            cookies: cookies.map((cookie) => (
+                cookie.url || cookie.domain || !documentUrl ? cookie : {...cookie, url: documentUrl}
+            )),
+        });
+    }
+
+    template(name: TemplateName, template?: string, file?: string): string | undefined {
+        if (template !== undefined && file !== undefined) {
+            throw new OptionValidationError(`${name}File`, file, `cannot be combined with ${name}`);
+        }
+        if (file !== undefined) {
+            template = fs.readFileSync(file, 'utf-8');
+        }
+        if (template === undefined) {
+            return undefined;
+        }
+        return renderTemplate(name, template, {
+            dir: file === undefined ? process.cwd() : path.dirname(path.resolve(file)),
+            variables: this.options.templateVariables || {},
+            // templates given inline are left as they are unless asked for
+            inlineAssets: this.options.inlineTemplateAssets ?? file !== undefined,
+            defaultStyles: this.options.templateStyles ?? file !== undefined,
+        });
     }
 
     generatePdfOptions(): RenderOptions {
@@ -302,16 +1432,47 @@ class RenderPDF {
             options.marginRight = 0;
         }
 
+        if (this.options.marginTop !== undefined) {
+            options.marginTop = parseDimension('marginTop', this.options.marginTop);
+        }
+
+        if (this.options.marginBottom !== undefined) {
+            options.marginBottom = parseDimension('marginBottom', this.options.marginBottom);
+        }
+
+        if (this.options.marginLeft !== undefined) {
+            options.marginLeft = parseDimension('marginLeft', this.options.marginLeft);
+        }
+
+        if (this.options.marginRight !== undefined) {
+            options.marginRight = parseDimension('marginRight', this.options.marginRight);
+        }
+
         if (this.options.includeBackground !== undefined) {
             options.printBackground = !!this.options.includeBackground;
         }
 
+        if (this.options.paperFormat !== undefined) {
+            if (this.options.paperWidth !== undefined || this.options.paperHeight !== undefined) {
+                throw new OptionValidationError('paperFormat', this.options.paperFormat, 'cannot be combined with paperWidth or paperHeight');
+            }
+            const size = paperFormatSize(this.options.paperFormat);
+            options.paperWidth = size.width;
+            options.paperHeight = size.height;
+        }
+
         if (this.options.paperWidth !== undefined) {
-            options.paperWidth = parseFloat(this.options.paperWidth);
+            options.paperWidth = parseDimension('paperWidth', this.options.paperWidth);
+            if (options.paperWidth === 0) {
+                throw new OptionValidationError('paperWidth', this.options.paperWidth, 'must be greater than 0');
+            }
         }
 
         if (this.options.paperHeight !== undefined) {
-            options.paperHeight = parseFloat(this.options.paperHeight);
+            options.paperHeight = parseDimension('paperHeight', this.options.paperHeight);
+            if (options.paperHeight === 0) {
+                throw new OptionValidationError('paperHeight', this.options.paperHeight, 'must be greater than 0');
+            }
         }
 
         if (this.options.preferCSSPageSize !== undefined) {
@@ -326,22 +1487,41 @@ class RenderPDF {
             options.displayHeaderFooter = !!this.options.displayHeaderFooter;
         }
 
-        if (this.options.headerTemplate !== undefined) {
-            options.headerTemplate = this.options.headerTemplate;
+        const headerTemplate = this.template('headerTemplate', this.options.headerTemplate, this.options.headerTemplateFile);
+        if (headerTemplate !== undefined) {
+            options.headerTemplate = headerTemplate;
+        }
+
+        const footerTemplate = this.template('footerTemplate', this.options.footerTemplate, this.options.footerTemplateFile);
+        if (footerTemplate !== undefined) {
+            options.footerTemplate = footerTemplate;
+        }
+
+        if (this.options.outline) {
+            // chrome builds the outline from the structure tree of tagged pdfs
+            options.generateTaggedPDF = true;
+            options.generateDocumentOutline = true;
+        }
+
+        if (this.options.tagged) {
+            options.generateTaggedPDF = true;
         }
 
-        if (this.options.footerTemplate !== undefined) {
-            options.footerTemplate = this.options.footerTemplate;
+        if (this.options.pdfa !== undefined) {
+            parseConformance(this.options.pdfa);
+            if (this.options.encryption) {
+                throw new OptionValidationError('pdfa', this.options.pdfa, 'cannot be combined with encryption');
+            }
         }
 
         if (this.options.scale !== undefined) {
             let scale = this.options.scale;
             if (scale < 0.1) {
-                console.warn(`scale cannot be lower than 0.1, using 0.1`);
+                this.warn(`scale cannot be lower than 0.1, using 0.1`);
                 scale = 0.1;
             }
             if (scale > 2) {
-                console.warn(`scale cannot be higher than 2, using 2`);
+                this.warn(`scale cannot be higher than 2, using 2`);
                 scale = 2;
             }
             options.scale = scale;
@@ -350,16 +1530,20 @@ class RenderPDF {
         return options;
     }
 
-    error(...msg: any[]) {
-        if (this.options.printErrors) {
-            console.error(...msg);
-        }
+    error(message: string, fields?: LogFields) {
+        this.logger.error(message, fields);
     }
 
-    log(...msg: any[]) {
-        if (this.options.printLogs) {
-            console.log(...msg);
-        }
+    warn(message: string, fields?: LogFields) {
+        this.logger.warn(message, fields);
+    }
+
+    log(message: string, fields?: LogFields) {
+        this.logger.info(message, fields);
+    }
+
+    debug(message: string, fields?: LogFields) {
+        this.logger.debug(message, fields);
     }
 
     getPerfTime(prev: ReturnType<typeof process.hrtime>) {
@@ -367,17 +1551,18 @@ class RenderPDF {
         return time[0] * 1e3 + time[1] / 1e6;
     }
 
-    async profileScope(msg: string, cb: () => unknown) {
+    async profileScope(phase: RenderPhase, msg: string, cb: () => unknown) {
         const start = process.hrtime();
         await cb();
-        this.log(msg, `took ${Math.round(this.getPerfTime(start))}ms`);
+        const took = Math.round(this.getPerfTime(start));
+        this.debug(`${msg} took ${took}ms`, {phase, duration: took});
+        this.owner.emit('phase', {phase, duration: took});
+        return took;
     }
 
-    browserLog(type: string, msg: string) {
-        const lines = msg.split('\n');
-        for (const line of lines) {
-            this.log(`(chrome) (${type}) ${line}`);
-        }
+    browserLog(stream: ChromeOutputEvent['stream'], line: string) {
+        this.debug(`(chrome) (${stream === 'stdout' ? 'out' : 'err'}) ${line}`);
+        this.owner.emit('chromeOutput', {stream, line});
     }
 
     async spawnChrome() {
@@ -385,14 +1570,19 @@ class RenderPDF {
             this.port = await this.selectFreePort();
         }
         const chromeExec = this.options.chromeBinary || await this.detectChrome();
-        this.log('Using', chromeExec);
+        this.log(`Using ${chromeExec}`);
         const commandLineOptions = [
             '--headless',
             `--remote-debugging-port=${this.port}`,
             '--disable-gpu',
-            ...this.options.chromeOptions!,
-            'about:blank'
         ];
+        // every instance gets a fresh profile unless one is passed in chromeOptions
+        let userDataDir: string | undefined;
+        if (!this.options.chromeOptions!.some((option) => option.startsWith('--user-data-dir'))) {
+            userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'render-pdf-'));
+            commandLineOptions.push(`--user-data-dir=${userDataDir}`);
+        }
+        commandLineOptions.push(...this.options.chromeOptions!, 'about:blank');
 
         if (this.commandLineOptions.windowSize !== undefined) {
             commandLineOptions.push(`--window-size=${this.commandLineOptions.windowSize[0]},${this.commandLineOptions.windowSize[1]}`);
@@ -402,22 +1592,120 @@ class RenderPDF {
             chromeExec,
             commandLineOptions
         );
-        const stdout = new StreamReader(chrome.stdout);
-        const stderr = new StreamReader(chrome.stderr);
-        chrome.on('close', (code: number) => {
-            this.log(`Chrome stopped (${code})`);
-            this.browserLog('out', stdout.data);
-            this.browserLog('err', stderr.data);
+        new LineReader(chrome.stdout, (line) => this.browserLog('stdout', line));
+        new LineReader(chrome.stderr, (line) => this.browserLog('stderr', line));
+        const exited = defer<never>();
+        exited.promise.catch(() => undefined);
+        chrome.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
+            this.log(`Chrome stopped (${code})`, {code, signal});
+            if (userDataDir) {
+                this.removeUserDataDir(userDataDir);
+            }
+            if (this.chrome === chrome && !this.chromeStopped) {
+                this.error(`Chrome exited unexpectedly (${code})`, {code, signal});
+                exited.reject(new ChromeExitedError(code, signal));
+                if (this.restartOnCrash) {
+                    this.restartChrome().catch((e) => this.error('Failed to restart chrome', {error: e}));
+                }
+            }
         });
         this.chrome = chrome;
+        this.chromeExited = exited;
+        this.userDataDir = userDataDir;
+        this.chromeStopped = false;
+    }
+
+    removeUserDataDir(dir: string) {
+        try {
+            fs.rmSync(dir, {recursive: true, force: true});
+        } catch (e) {
+            this.error(`Failed to remove ${dir}`, {error: e});
+        }
+    }
+
+    // launches chrome, or connects to remoteHost, resolves once it accepts connections
+    // calling it again is a no-op while chrome is running, after a crash chrome is launched again
+    start(): Promise<void> {
+        if (this.restarting) {
+            return this.restarting;
+        }
+        if (!this.starting || (this.started && !this.isAlive())) {
+            this.started = false;
+            this.starting = (async () => {
+                if (!this.options.remoteHost) {
+                    await this.spawnChrome();
+                }
+                await this.waitForDebugPort();
+            })().then(() => {
+                this.started = true;
+            }, (e) => {
+                this.starting = undefined;
+                this.killChrome();
+                throw e;
+            });
+        }
+        return this.starting;
     }
 
     async connectToChrome() {
-        if (!this.options.remoteHost) {
-            await this.spawnChrome();
+        await this.start();
+    }
+
+    isAlive(): boolean {
+        if (this.options.remoteHost) {
+            return this.started;
         }
+        return this.chrome !== null && !this.chromeStopped && this.chrome.exitCode === null && this.chrome.signalCode === null;
+    }
 
-        await this.waitForDebugPort();
+    checkAlive() {
+        if (this.options.remoteHost || this.restarting || this.isAlive()) {
+            return;
+        }
+        if (this.chrome && !this.chromeStopped) {
+            throw new ChromeExitedError(this.chrome.exitCode, this.chrome.signalCode);
+        }
+        throw new Error('Chrome is not running, call start() first');
+    }
+
+    // asks chrome to quit and kills it if it doesn't within timeout ms, a remote browser is left running
+    async close(timeout = 5000) {
+        if (this.starting) {
+            await this.starting.catch(() => undefined);
+        }
+        if (this.restarting) {
+            await this.restarting.catch(() => undefined);
+        }
+        this.starting = undefined;
+        this.started = false;
+        const chrome = this.chrome;
+        if (this.options.remoteHost || !chrome) {
+            return;
+        }
+        this.chromeStopped = true;
+        if (chrome.exitCode === null && chrome.signalCode === null) {
+            const closed = new Promise<boolean>((resolve) => chrome.once('close', () => resolve(true)));
+            try {
+                const client = await CDP({host: this.host, port: this.port});
+                try {
+                    await client.Browser.close();
+                } finally {
+                    client.close();
+                }
+            } catch (e) {
+                this.log('Failed to close chrome gracefully', {error: e});
+            }
+            if (!await Promise.race([closed, this.wait(timeout).then(() => false)])) {
+                this.log(`Chrome didn't exit within ${timeout}ms, killing it`);
+                chrome.kill('SIGKILL');
+                await closed;
+            }
+        }
+        this.userDataDir = undefined;
+    }
+
+    dispose() {
+        return this.close();
     }
 
     async isCommandExists(cmd: string): Promise<boolean> {
@@ -477,9 +1765,40 @@ class RenderPDF {
         throw Error('Couldn\'t detect chrome version installed! use --chrome-binary to pass custom location');
     }
 
+    // kills chrome immediately, close() lets it shut down gracefully
     killChrome() {
-        if (!this.options.remoteHost) {
-            this.chrome!.kill('SIGKILL');
+        if (!this.options.remoteHost && this.chrome) {
+            this.chromeStopped = true;
+            this.chrome.kill('SIGKILL');
+        }
+    }
+
+    restartChrome(): Promise<void> {
+        // renders failing at the same time share one restart
+        if (!this.restarting) {
+            this.restarting = (async () => {
+                this.log('Restarting chrome');
+                if (this.chrome && this.chrome.exitCode === null && this.chrome.signalCode === null) {
+                    this.killChrome();
+                }
+                await this.spawnChrome();
+                await this.waitForDebugPort();
+                this.chromeGeneration++;
+            })().finally(() => {
+                this.restarting = undefined;
+            });
+        }
+        return this.restarting;
+    }
+
+    // waits for a pending restart, or restarts chrome if it died without being noticed yet
+    async recoverChrome() {
+        if (this.restarting) {
+            await this.restarting;
+        } else if (!this.options.remoteHost && this.chrome && (this.chrome.exitCode !== null || this.chrome.signalCode !== null)) {
+            if (!this.chromeStopped) {
+                await this.restartChrome();
+            }
         }
     }
 
@@ -550,5 +1869,65 @@ class RenderPDF {
     }
 }
 
-export {RenderPDF};
+if (Symbol.asyncDispose) {
+    RenderPDF.prototype[Symbol.asyncDispose] = RenderPDF.prototype.dispose;
+}
+
+export {
+    RenderPDF,
+    ConstructorOptions,
+    RenderOptions,
+    ThriveRenderPDFOptions,
+    HtmlSource,
+    RenderSource,
+    HtmlRenderOptions,
+    RenderJob,
+    JobOverrides,
+    RenderJobResult,
+    RenderTimings,
+    RenderContext,
+    RenderJobError,
+    ReadinessStrategy,
+    ReadinessTimeoutError,
+    RenderPhase,
+    RenderTimeoutError,
+    RenderAbortedError,
+    NavigationError,
+    ChromeDisconnectedError,
+    ChromeExitedError,
+    QualityGateError,
+    QualityGates,
+    QualityViolation,
+    QualityViolationType,
+    PdfAConformanceError,
+    OptionValidationError,
+    RetryPolicy,
+    RetryableFailure,
+    Dimension,
+    PaperFormat,
+    OutputFormat,
+    BasicAuthCredentials,
+    NetworkPolicy,
+    DeniedRequest,
+    PdfMetadata,
+    PdfEncryption,
+    PdfPermissions,
+    PdfSignature,
+    PdfAConformance,
+    PdfAViolation,
+    PdfAViolationType,
+    MergeJob,
+    StorageState,
+    Logger,
+    LogFields,
+    RenderEvents,
+    JobStartEvent,
+    PhaseEvent,
+    PageConsoleEvent,
+    PageExceptionEvent,
+    RequestEvent,
+    ResponseEvent,
+    ChromeOutputEvent,
+};
+export {RenderServer, RenderServerOptions, RenderRequestBody, createRenderServer} from "./server";
 export default RenderPDF;
@@ -0,0 +1,33 @@
+type LogFields = Record<string, unknown>;
+
+// receives everything RenderPDF logs, e.g. to forward it to a structured logger like pino or winston
+interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+// errors are printed as they are, so the stack stays readable
+function consoleArgs(message: string, fields: LogFields = {}): unknown[] {
+    const args: unknown[] = [message];
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) {
+            continue;
+        }
+        args.push(value instanceof Error ? value : `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    }
+    return args;
+}
+
+// the default logger, debug and info messages are printed with printLogs, warnings and errors with printErrors
+function consoleLogger(printLogs: boolean, printErrors: boolean): Logger {
+    return {
+        debug: (message, fields) => printLogs && console.log(...consoleArgs(message, fields)),
+        info: (message, fields) => printLogs && console.log(...consoleArgs(message, fields)),
+        warn: (message, fields) => printErrors && console.warn(...consoleArgs(message, fields)),
+        error: (message, fields) => printErrors && console.error(...consoleArgs(message, fields)),
+    };
+}
+
+export {Logger, LogFields, consoleLogger};
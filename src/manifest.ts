@@ -0,0 +1,222 @@
+import {ConstructorOptions, RenderJob, RenderOptions, RenderPDF} from "./index";
+
+import fs from "fs";
+import path from "path";
+
+// printToPDF parameters that have no counterpart in ConstructorOptions
+const pdfOnlyKeys = [
+    'printBackground',
+    'ignoreInvalidPageRanges',
+    'generateTaggedPDF',
+    'generateDocumentOutline',
+];
+
+// options naming files, resolved against the directory of the manifest like the job's own paths
+const pathKeys = [
+    'headerTemplateFile',
+    'footerTemplateFile',
+    'cookieJar',
+    'storageState',
+    'exportStorageState',
+    'traceFilename',
+];
+const signaturePathKeys = ['p12', 'key', 'cert'];
+
+// csv cells of these fields are never converted to numbers or booleans
+const stringKeys = [
+    'url',
+    'html',
+    'htmlFile',
+    'baseUrl',
+    'pdf',
+    'paperFormat',
+    'pageRanges',
+    'headerTemplate',
+    'footerTemplate',
+    'format',
+];
+
+type ManifestEntry = Record<string, unknown>;
+
+let optionKeys: string[] | undefined;
+
+// the constructor sets every option, so the options of a renderer name them all
+function knownOptionKeys(): string[] {
+    if (!optionKeys) {
+        optionKeys = [...Object.keys(new RenderPDF().options), 'windowSize'];
+    }
+    return optionKeys;
+}
+
+function readJobManifest(filename: string): RenderJob[] {
+    const content = fs.readFileSync(filename, 'utf-8');
+    const extension = path.extname(filename).toLowerCase();
+    let entries: ManifestEntry[];
+    if (extension === '.json') {
+        const parsed = JSON.parse(content);
+        entries = Array.isArray(parsed) ? parsed : typeof parsed === 'object' && parsed !== null ? parsed.jobs : undefined;
+        if (!Array.isArray(entries)) {
+            throw new Error(`${filename} must contain an array of jobs or an object with a "jobs" array`);
+        }
+    } else if (extension === '.jsonl' || extension === '.ndjson') {
+        entries = content.split(/\r?\n/)
+            .map((line, i) => [line, i] as const)
+            .filter(([line]) => line.trim() !== '')
+            .map(([line, i]) => {
+                try {
+                    return JSON.parse(line);
+                } catch (e) {
+                    throw new Error(`${filename}:${i + 1}: ${e instanceof Error ? e.message : e}`);
+                }
+            });
+    } else if (extension === '.csv') {
+        entries = parseCsv(content);
+    } else {
+        throw new Error(`Unsupported job manifest format "${extension}", use .json, .jsonl or .csv`);
+    }
+    const dir = path.dirname(path.resolve(filename));
+    return entries.map((entry, i) => toJob(entry, `${filename} job ${i + 1}`, dir));
+}
+
+// relative htmlFile, pdf and option paths are resolved against dir, the directory of the manifest
+function toJob(entry: ManifestEntry, name: string, dir: string): RenderJob {
+    if (typeof entry !== 'object' || entry === null) {
+        throw new Error(`${name}: must be an object`);
+    }
+    const {url, html, htmlFile, baseUrl, pdf, output, ...overrides} = entry;
+    const target = pdf ?? output;
+    if (typeof target !== 'string') {
+        throw new Error(`${name}: "pdf" (or "output") is required`);
+    }
+    const sources = [url, html, htmlFile].filter((source) => source !== undefined);
+    if (sources.length !== 1) {
+        throw new Error(`${name}: exactly one of "url", "html" or "htmlFile" is required`);
+    }
+    if (baseUrl !== undefined && typeof baseUrl !== 'string') {
+        throw new Error(`${name}: "baseUrl" must be a string`);
+    }
+
+    const options: Record<string, unknown> = {};
+    const pdfOptions: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(overrides)) {
+        if (pdfOnlyKeys.includes(key)) {
+            pdfOptions[key] = value;
+        } else if (knownOptionKeys().includes(key)) {
+            options[key] = resolvePaths(key, value, dir);
+        } else {
+            throw new Error(`${name}: unknown option "${key}"`);
+        }
+    }
+    const job: Partial<RenderJob> = {
+        options: options as ConstructorOptions,
+        pdfOptions: pdfOptions as RenderOptions,
+    };
+
+    if (typeof url === 'string') {
+        return {...job, url, pdf: path.resolve(dir, target)};
+    }
+    if (typeof html === 'string') {
+        return {...job, html, baseUrl, pdf: path.resolve(dir, target)};
+    }
+    if (typeof htmlFile === 'string') {
+        return {...job, html: fs.readFileSync(path.resolve(dir, htmlFile), 'utf-8'), baseUrl, pdf: path.resolve(dir, target)};
+    }
+    throw new Error(`${name}: "url", "html" and "htmlFile" must be strings`);
+}
+
+function resolvePaths(key: string, value: unknown, dir: string): unknown {
+    if (pathKeys.includes(key) && typeof value === 'string') {
+        return path.resolve(dir, value);
+    }
+    if (key === 'signature' && typeof value === 'object' && value !== null) {
+        const signature: Record<string, unknown> = {...value};
+        for (const pathKey of signaturePathKeys) {
+            if (typeof signature[pathKey] === 'string') {
+                signature[pathKey] = path.resolve(dir, signature[pathKey] as string);
+            }
+        }
+        return signature;
+    }
+    return value;
+}
+
+function parseCsv(content: string): ManifestEntry[] {
+    const rows = parseCsvRows(content).filter((row) => row.some((cell) => cell !== ''));
+    if (rows.length === 0) {
+        return [];
+    }
+    const [header, ...records] = rows;
+    return records.map((record) => {
+        const entry: ManifestEntry = {};
+        header.forEach((key, i) => {
+            const cell = record[i];
+            // empty cells keep the defaults
+            if (cell === undefined || cell === '') {
+                return;
+            }
+            entry[key.trim()] = stringKeys.includes(key.trim()) ? cell : parseCsvValue(cell);
+        });
+        return entry;
+    });
+}
+
+function parseCsvValue(cell: string): unknown {
+    if (cell === 'true' || cell === 'false') {
+        return cell === 'true';
+    }
+    if (cell.trim() !== '' && !isNaN(Number(cell))) {
+        return Number(cell);
+    }
+    // complex options such as waitFor or clip can be given as JSON
+    if (/^\s*[[{]/.test(cell)) {
+        try {
+            return JSON.parse(cell);
+        } catch (e) {
+            return cell;
+        }
+    }
+    return cell;
+}
+
+// RFC 4180: quoted cells may contain separators, newlines and doubled quotes
+function parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+export {readJobManifest};
@@ -0,0 +1,376 @@
+import {Protocol} from "devtools-protocol";
+
+import CDP from "chrome-remote-interface";
+import dns from "dns";
+import fs from "fs";
+import net from "net";
+import path from "path";
+import {fileURLToPath} from "url";
+import {LogFields} from "./logger";
+
+interface BasicAuthCredentials {
+    username: string;
+    password: string;
+}
+
+interface NetworkPolicy {
+    // offline: no network access at all
+    // same-origin: only requests to the origin of the rendered url
+    // allowlist: only requests to hosts in allow
+    mode: 'offline' | 'same-origin' | 'allowlist';
+    // hosts allowed in allowlist mode, '*.example.com' matches any subdomain of example.com
+    allow?: string[];
+    // directory file:// requests may read from, all file access is denied without it
+    assetRoot?: string;
+    // loopback, private, link-local (e.g. cloud metadata endpoints) and other internal addresses are denied unless set,
+    // best effort only: hosts are resolved apart from chrome, so DNS rebinding gets around it
+    allowPrivateNetwork?: boolean;
+}
+
+interface DeniedRequest {
+    url: string;
+    reason: string;
+}
+
+interface InterceptionRules {
+    // serves html for the document request to url instead of fetching it
+    document?: { url: string, html: string };
+    // glob patterns, '*' matches any number of characters
+    blockUrls?: string[];
+    // hosts requests may go to, '*.example.com' matches any subdomain of example.com
+    allowHosts?: string[];
+    // answers challenges of the origin of documentUrl only
+    basicAuth?: BasicAuthCredentials;
+    policy?: NetworkPolicy;
+    // added to requests to the origin of documentUrl only, so credentials don't reach third parties
+    headers?: Record<string, string>;
+    // url of the rendered document, the origin for same-origin policy
+    documentUrl?: string;
+}
+
+function globToRegExp(pattern: string) {
+    const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function hostMatches(host: string, allowed: string) {
+    host = host.toLowerCase();
+    allowed = allowed.toLowerCase();
+    if (allowed.startsWith('*.')) {
+        return host.endsWith(allowed.slice(1));
+    }
+    return host === allowed;
+}
+
+function normalizeUrl(url: string) {
+    // match the url the way chrome will report it, without fragment and with normalized host/path
+    const normalized = new URL(url);
+    normalized.hash = '';
+    return normalized.href;
+}
+
+// the eight 16 bit groups of an ipv6 address
+function ipv6Groups(address: string): number[] {
+    let text = address.toLowerCase().replace(/%.*$/, '');
+    // a trailing dotted ipv4 part stands for the last two groups
+    const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(2).map(Number);
+        text = `${dotted[1]}${(a * 256 + b).toString(16)}:${(c * 256 + d).toString(16)}`;
+    }
+    const [head, tail] = text.split('::');
+    const parse = (part: string | undefined) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+    const start = parse(head);
+    const end = parse(tail);
+    const zeros = tail === undefined ? [] : new Array(8 - start.length - end.length).fill(0);
+    return [...start, ...zeros, ...end];
+}
+
+function isPrivateAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        const [a, b] = address.split('.').map(Number);
+        return a === 0
+            || a === 10
+            || a === 127
+            || (a === 100 && b >= 64 && b <= 127)
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31)
+            || (a === 192 && b === 168)
+            || (a === 198 && (b === 18 || b === 19))
+            || a >= 224;
+    }
+    const groups = ipv6Groups(address);
+    const zeroUpTo = (count: number) => groups.slice(0, count).every((group) => group === 0);
+    const embeddedIPv4 = () => [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+    if (zeroUpTo(7) && groups[7] <= 1) {
+        // unspecified and loopback
+        return true;
+    }
+    // ipv4-mapped (::ffff:7f00:1 is 127.0.0.1), ipv4-compatible and NAT64 addresses reach ipv4 hosts
+    if ((zeroUpTo(5) && groups[5] === 0xffff) || zeroUpTo(6)
+        || (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0))) {
+        return isPrivateAddress(embeddedIPv4());
+    }
+    return (groups[0] & 0xfe00) === 0xfc00
+        || (groups[0] & 0xffc0) === 0xfe80
+        || (groups[0] & 0xff00) === 0xff00;
+}
+
+async function resolvesToPrivateAddress(hostname: string): Promise<boolean> {
+    // ipv6 literals are reported in brackets by URL
+    const host = hostname.replace(/^\[(.*)\]$/, '$1');
+    if (net.isIP(host)) {
+        return isPrivateAddress(host);
+    }
+    try {
+        const addresses = await dns.promises.lookup(host, {all: true});
+        return addresses.some(({address}) => isPrivateAddress(address));
+    } catch (e) {
+        // chrome won't be able to resolve it either
+        return false;
+    }
+}
+
+function isWithin(root: string, file: string) {
+    const resolve = (target: string) => {
+        try {
+            return fs.realpathSync(target);
+        } catch (e) {
+            return path.resolve(target);
+        }
+    };
+    const relative = path.relative(resolve(root), resolve(file));
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+class RequestInterceptor {
+    client: CDP.Client;
+    rules: InterceptionRules;
+    onError: (message: string, fields?: LogFields) => void;
+    blockPatterns: RegExp[];
+    documentServed: boolean;
+    authAttempts: Set<string>;
+    denied: DeniedRequest[];
+
+    constructor(client: CDP.Client, rules: InterceptionRules, onError: (message: string, fields?: LogFields) => void, denied: DeniedRequest[] = []) {
+        this.client = client;
+        this.rules = rules;
+        this.onError = onError;
+        this.blockPatterns = (rules.blockUrls || []).map(globToRegExp);
+        this.documentServed = false;
+        this.authAttempts = new Set();
+        this.denied = denied;
+    }
+
+    get enabled() {
+        return !!this.rules.document
+            || this.blockPatterns.length > 0
+            || (this.rules.allowHosts || []).length > 0
+            || !!this.rules.basicAuth
+            || !!this.rules.policy
+            || this.hasHeaders();
+    }
+
+    hasHeaders() {
+        return !!this.rules.documentUrl && Object.keys(this.rules.headers || {}).length > 0;
+    }
+
+    // whether the url belongs to the origin of the rendered document
+    isDocumentOrigin(url: string) {
+        return !!this.rules.documentUrl && new URL(url).origin === new URL(this.rules.documentUrl).origin;
+    }
+
+    // has to run before navigation
+    async enable() {
+        if (!this.enabled) {
+            return;
+        }
+        const {Fetch} = this.client;
+        Fetch.on('requestPaused', (e) => {
+            this.handleRequest(e).catch((err) => this.onError(`Failed to handle request for ${e.request.url}`, {error: err}));
+        });
+        Fetch.on('authRequired', (e) => {
+            this.handleAuth(e).catch((err) => this.onError(`Failed to authenticate request for ${e.request.url}`, {error: err}));
+        });
+        await Fetch.enable({
+            patterns: this.patterns(),
+            handleAuthRequests: !!this.rules.basicAuth,
+        });
+    }
+
+    patterns(): Protocol.Fetch.RequestPattern[] {
+        const document = this.rules.document;
+        if (document && this.enabledRules() === 1) {
+            // '*' and '?' are wildcards in fetch patterns
+            const urlPattern = normalizeUrl(document.url).replace(/[\\*?]/g, '\\$&');
+            return [{urlPattern, resourceType: 'Document', requestStage: 'Request'}];
+        }
+        return [{urlPattern: '*', requestStage: 'Request'}];
+    }
+
+    enabledRules() {
+        return [
+            !!this.rules.document,
+            this.blockPatterns.length > 0,
+            (this.rules.allowHosts || []).length > 0,
+            !!this.rules.basicAuth,
+            !!this.rules.policy,
+            this.hasHeaders(),
+        ].filter(Boolean).length;
+    }
+
+    // returns the reason a request must not be sent, if any
+    async denyReason(url: string): Promise<string | undefined> {
+        if (this.blockPatterns.some((pattern) => pattern.test(url))) {
+            return 'blocked by url pattern';
+        }
+        const {protocol, hostname} = new URL(url);
+        const isNetwork = protocol === 'http:' || protocol === 'https:' || protocol === 'ws:' || protocol === 'wss:';
+        const allowHosts = this.rules.allowHosts || [];
+        if (isNetwork && allowHosts.length > 0 && !allowHosts.some((host) => hostMatches(hostname, host))) {
+            return `host ${hostname} is not allowed`;
+        }
+        const policy = this.rules.policy;
+        if (!policy) {
+            return undefined;
+        }
+        if (protocol === 'file:') {
+            if (!policy.assetRoot) {
+                return 'file access is not allowed';
+            }
+            // a host would make it a network share, or a path that can't be checked at all
+            if (hostname !== '') {
+                return `file on host ${hostname} is not allowed`;
+            }
+            if (!isWithin(policy.assetRoot, fileURLToPath(url))) {
+                return `file is outside of ${policy.assetRoot}`;
+            }
+            return undefined;
+        }
+        if (!isNetwork) {
+            return undefined;
+        }
+        switch (policy.mode) {
+            case 'offline':
+                return 'network access is not allowed';
+            case 'same-origin':
+                if (!this.rules.documentUrl || new URL(url).origin !== new URL(this.rules.documentUrl).origin) {
+                    return 'cross-origin request is not allowed';
+                }
+                break;
+            case 'allowlist':
+                if (!(policy.allow || []).some((host) => hostMatches(hostname, host))) {
+                    return `host ${hostname} is not in the allowlist`;
+                }
+                break;
+        }
+        if (!policy.allowPrivateNetwork && await resolvesToPrivateAddress(hostname)) {
+            return `host ${hostname} is a private network address`;
+        }
+        return undefined;
+    }
+
+    async handleRequest(e: Protocol.Fetch.RequestPausedEvent) {
+        const {Fetch} = this.client;
+        const document = this.rules.document;
+        if (document && !this.documentServed && e.resourceType === 'Document' && e.request.url === normalizeUrl(document.url)) {
+            this.documentServed = true;
+            await Fetch.fulfillRequest({
+                requestId: e.requestId,
+                responseCode: 200,
+                responseHeaders: [{name: 'Content-Type', value: 'text/html; charset=utf-8'}],
+                body: Buffer.from(document.html, 'utf-8').toString('base64'),
+            });
+            return;
+        }
+
+        let reason: string | undefined;
+        try {
+            reason = await this.denyReason(e.request.url);
+        } catch (err) {
+            // a request that is neither continued nor failed stalls the page load, so it fails closed
+            reason = `request could not be checked: ${err instanceof Error ? err.message : String(err)}`;
+        }
+        if (reason !== undefined) {
+            this.denied.push({url: e.request.url, reason});
+            await Fetch.failRequest({requestId: e.requestId, errorReason: 'BlockedByClient'});
+            return;
+        }
+        await Fetch.continueRequest({requestId: e.requestId, headers: this.requestHeaders(e.request)});
+    }
+
+    // the request's own headers with the extra ones, undefined keeps them as they are
+    requestHeaders(request: Protocol.Network.Request): Protocol.Fetch.HeaderEntry[] | undefined {
+        if (!this.hasHeaders() || !this.isDocumentOrigin(request.url)) {
+            return undefined;
+        }
+        const headers = {...request.headers, ...this.rules.headers};
+        return Object.entries(headers).map(([name, value]) => ({name, value}));
+    }
+
+    async handleAuth(e: Protocol.Fetch.AuthRequiredEvent) {
+        const {Fetch} = this.client;
+        const credentials = this.rules.basicAuth;
+        // answering a rejected challenge with the same credentials again would loop forever
+        if (!credentials || e.authChallenge.source === 'Proxy' || this.authAttempts.has(e.requestId)
+            || !this.isDocumentOrigin(e.request.url)) {
+            await Fetch.continueWithAuth({requestId: e.requestId, authChallengeResponse: {response: 'CancelAuth'}});
+            return;
+        }
+        this.authAttempts.add(e.requestId);
+        await Fetch.continueWithAuth({
+            requestId: e.requestId,
+            authChallengeResponse: {response: 'ProvideCredentials', ...credentials},
+        });
+    }
+}
+
+// reads cookies from a Netscape cookies.txt file (as written by curl or wget) or a JSON array of cookies
+function readCookieJar(filename: string): Protocol.Network.CookieParam[] {
+    const content = fs.readFileSync(filename, 'utf-8');
+    if (content.trim().startsWith('[')) {
+        return JSON.parse(content);
+    }
+    const cookies: Protocol.Network.CookieParam[] = [];
+    for (let line of content.split(/\r?\n/)) {
+        let httpOnly = false;
+        if (line.startsWith('#HttpOnly_')) {
+            httpOnly = true;
+            line = line.slice('#HttpOnly_'.length);
+        }
+        if (line.trim() === '' || line.startsWith('#')) {
+            continue;
+        }
+        const fields = line.split('\t');
+        if (fields.length < 7) {
+            throw new Error(`Invalid line in cookie jar ${filename}: ${line}`);
+        }
+        const [domain, , path, secure, expires, name, value] = fields;
+        const cookie: Protocol.Network.CookieParam = {
+            name,
+            value,
+            domain,
+            path,
+            secure: secure.toUpperCase() === 'TRUE',
+            httpOnly,
+        };
+        if (Number(expires) > 0) {
+            cookie.expires = Number(expires);
+        }
+        cookies.push(cookie);
+    }
+    return cookies;
+}
+
+export {
+    BasicAuthCredentials,
+    NetworkPolicy,
+    DeniedRequest,
+    InterceptionRules,
+    RequestInterceptor,
+    readCookieJar,
+    globToRegExp,
+    hostMatches,
+    normalizeUrl,
+    isPrivateAddress,
+};
@@ -0,0 +1,27 @@
+// prefix of the ids given to headings that have none
+const headingIdPrefix = '__renderPdfHeading';
+
+// collects the visible h1-h3 headings, chrome writes named destinations only for elements that links of the document
+// point to, so every heading gets an id and a link from a hidden element
+const headingsScript = `(() => {
+    const links = document.createElement('div');
+    links.style.display = 'none';
+    const headings = [];
+    document.querySelectorAll('h1, h2, h3').forEach((heading, i) => {
+        const title = heading.textContent.replace(/\\s+/g, ' ').trim();
+        if (title === '' || heading.getClientRects().length === 0) {
+            return;
+        }
+        if (!heading.id) {
+            heading.id = ${JSON.stringify(headingIdPrefix)} + i;
+        }
+        const link = document.createElement('a');
+        link.href = '#' + encodeURIComponent(heading.id);
+        links.appendChild(link);
+        headings.push({level: Number(heading.tagName[1]), title, id: heading.id});
+    });
+    (document.body || document.documentElement).appendChild(links);
+    return headings;
+})()`;
+
+export {headingsScript};
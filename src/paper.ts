@@ -0,0 +1,61 @@
+import {OptionValidationError} from "./errors";
+
+// a number of inches or a string with one of the units in, cm, mm, px or pt, e.g. '2.5cm'
+type Dimension = number | string;
+
+type PaperFormat = 'Letter' | 'Legal' | 'Tabloid' | 'A3' | 'A4' | 'A5';
+
+interface PaperSize {
+    width: number;
+    height: number;
+}
+
+const unitsPerInch: Record<string, number> = {
+    in: 1,
+    cm: 2.54,
+    mm: 25.4,
+    px: 96,
+    pt: 72,
+};
+
+// portrait sizes in inches, landscape swaps them when printing
+const paperFormats: Record<PaperFormat, PaperSize> = {
+    Letter: {width: 8.5, height: 11},
+    Legal: {width: 8.5, height: 14},
+    Tabloid: {width: 11, height: 17},
+    A3: {width: 297 / 25.4, height: 420 / 25.4},
+    A4: {width: 210 / 25.4, height: 297 / 25.4},
+    A5: {width: 148 / 25.4, height: 210 / 25.4},
+};
+
+// converts a dimension to inches, the unit printToPDF expects
+function parseDimension(option: string, value: Dimension): number {
+    let inches: number;
+    if (typeof value === 'number') {
+        inches = value;
+    } else {
+        const match = value.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+))\s*([a-z]*)$/i);
+        if (!match) {
+            throw new OptionValidationError(option, value, 'expected a number with an optional unit, e.g. 1in, 2.5cm, 20mm, 96px or 72pt');
+        }
+        const unit = match[2].toLowerCase() || 'in';
+        if (!Object.prototype.hasOwnProperty.call(unitsPerInch, unit)) {
+            throw new OptionValidationError(option, value, `unknown unit "${match[2]}", use in, cm, mm, px or pt`);
+        }
+        inches = parseFloat(match[1]) / unitsPerInch[unit];
+    }
+    if (!isFinite(inches) || inches < 0) {
+        throw new OptionValidationError(option, value, 'must not be negative');
+    }
+    return inches;
+}
+
+function paperFormatSize(format: string): PaperSize {
+    const name = (Object.keys(paperFormats) as PaperFormat[]).find((key) => key.toLowerCase() === format.toLowerCase());
+    if (!name) {
+        throw new OptionValidationError('paperFormat', format, `use one of ${Object.keys(paperFormats).join(', ')}`);
+    }
+    return paperFormats[name];
+}
+
+export {Dimension, PaperFormat, PaperSize, paperFormats, parseDimension, paperFormatSize};
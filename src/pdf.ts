@@ -0,0 +1,271 @@
+import crypto from "crypto";
+import {PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNull, PDFNumber, PDFObject, PDFRef, PDFString} from "pdf-lib";
+
+interface PdfMetadata {
+    title?: string;
+    author?: string;
+    subject?: string;
+    keywords?: string[];
+    creationDate?: Date;
+}
+
+interface MergeSection {
+    pdf: Buffer;
+    // title of the section's bookmark, defaults to the title of the section's document
+    title?: string;
+}
+
+// a heading of the rendered page, id is the named destination chrome writes for it
+interface OutlineHeading {
+    // 1 for h1
+    level: number;
+    title: string;
+    id: string;
+}
+
+interface OutlineNode {
+    title: string;
+    page: PDFRef;
+    top?: number;
+    children: OutlineNode[];
+}
+
+async function loadPdf(pdf: Buffer) {
+    // keep chrome's producer instead of stamping pdf-lib's
+    return PDFDocument.load(pdf, {updateMetadata: false});
+}
+
+function setMetadata(doc: PDFDocument, metadata: PdfMetadata) {
+    if (metadata.title !== undefined) {
+        doc.setTitle(metadata.title);
+    }
+    if (metadata.author !== undefined) {
+        doc.setAuthor(metadata.author);
+    }
+    if (metadata.subject !== undefined) {
+        doc.setSubject(metadata.subject);
+    }
+    if (metadata.keywords !== undefined) {
+        doc.setKeywords(metadata.keywords);
+    }
+    if (metadata.creationDate !== undefined) {
+        doc.setCreationDate(metadata.creationDate);
+        doc.setModificationDate(metadata.creationDate);
+    }
+}
+
+async function applyMetadata(pdf: Buffer, metadata: PdfMetadata): Promise<Buffer> {
+    const doc = await loadPdf(pdf);
+    setMetadata(doc, metadata);
+    return Buffer.from(await doc.save());
+}
+
+// the natural language of the document, screen readers pick their pronunciation from it
+async function applyLanguage(pdf: Buffer, lang: string): Promise<Buffer> {
+    const doc = await loadPdf(pdf);
+    doc.setLanguage(lang);
+    return Buffer.from(await doc.save());
+}
+
+// replaces everything chrome derives from the wall clock or randomness, identical content yields identical bytes
+async function normalizePdf(pdf: Buffer, date: Date): Promise<Buffer> {
+    const doc = await loadPdf(pdf);
+    doc.setCreationDate(date);
+    doc.setModificationDate(date);
+    delete doc.context.trailerInfo.ID;
+    const content = Buffer.from(await doc.save());
+    // the file identifier is derived from the content, as the spec suggests
+    const id = PDFHexString.of(crypto.createHash('md5').update(content).digest('hex'));
+    doc.context.trailerInfo.ID = doc.context.obj([id, id]);
+    return Buffer.from(await doc.save());
+}
+
+async function countPages(pdf: Buffer): Promise<number> {
+    return (await loadPdf(pdf)).getPageCount();
+}
+
+// concatenates the sections, each one gets a bookmark wrapping the section's own outline
+async function mergePdfs(sections: MergeSection[], metadata: PdfMetadata = {}): Promise<Buffer> {
+    const merged = await PDFDocument.create({updateMetadata: false});
+    const outline: OutlineNode[] = [];
+    for (const section of sections) {
+        const doc = await loadPdf(section.pdf);
+        const pages = await merged.copyPages(doc, doc.getPageIndices());
+        if (pages.length === 0) {
+            continue;
+        }
+        const pageRefs = new Map<PDFRef, PDFRef>();
+        doc.getPages().forEach((page, i) => pageRefs.set(page.ref, pages[i].ref));
+        for (const page of pages) {
+            merged.addPage(page);
+        }
+        outline.push({
+            title: section.title || doc.getTitle() || `Section ${outline.length + 1}`,
+            page: pages[0].ref,
+            children: readOutline(doc, pageRefs),
+        });
+    }
+    setMetadata(merged, metadata);
+    writeOutline(merged, outline);
+    return Buffer.from(await merged.save());
+}
+
+function readOutline(doc: PDFDocument, pageRefs: Map<PDFRef, PDFRef>): OutlineNode[] {
+    const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    return outlines ? readOutlineItems(doc, outlines, pageRefs) : [];
+}
+
+function readOutlineItems(doc: PDFDocument, parent: PDFDict, pageRefs: Map<PDFRef, PDFRef>): OutlineNode[] {
+    const nodes: OutlineNode[] = [];
+    const visited = new Set<PDFDict>();
+    let item = parent.lookupMaybe(PDFName.of('First'), PDFDict);
+    while (item && !visited.has(item)) {
+        visited.add(item);
+        const title = item.lookupMaybe(PDFName.of('Title'), PDFString, PDFHexString);
+        const destination = outlineDestination(doc, item);
+        const page = destination && pageRefs.get(destination.page);
+        if (title && page) {
+            nodes.push({
+                title: title.decodeText(),
+                page,
+                top: destination!.top,
+                children: readOutlineItems(doc, item, pageRefs),
+            });
+        }
+        item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+    return nodes;
+}
+
+// only explicit destinations are supported, which is what chrome writes
+function outlineDestination(doc: PDFDocument, item: PDFDict): { page: PDFRef, top?: number } | undefined {
+    let destination: PDFObject | undefined = item.lookup(PDFName.of('Dest'));
+    if (!destination) {
+        const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+        destination = action?.lookup(PDFName.of('D'));
+    }
+    return explicitDestination(destination);
+}
+
+function explicitDestination(destination: PDFObject | undefined): { page: PDFRef, top?: number } | undefined {
+    if (destination instanceof PDFDict) {
+        destination = destination.lookup(PDFName.of('D'));
+    }
+    if (!(destination instanceof PDFArray) || !(destination.get(0) instanceof PDFRef)) {
+        return undefined;
+    }
+    const page = destination.get(0) as PDFRef;
+    const mode = destination.lookupMaybe(1, PDFName);
+    const top = mode === PDFName.of('XYZ') ? destination.lookupMaybe(3, PDFNumber)?.asNumber() : undefined;
+    return {page, top};
+}
+
+// the Dests dictionary of the catalog, as chrome writes it, and the Dests name tree
+function namedDestinations(doc: PDFDocument): Map<string, { page: PDFRef, top?: number }> {
+    const destinations = new Map<string, { page: PDFRef, top?: number }>();
+    const add = (name: string, value: PDFObject | undefined) => {
+        const destination = explicitDestination(value instanceof PDFRef ? doc.context.lookup(value) : value);
+        if (destination && !destinations.has(name)) {
+            destinations.set(name, destination);
+        }
+    };
+    const dests = doc.catalog.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    for (const [key, value] of dests?.entries() || []) {
+        add(key.decodeText(), value);
+    }
+    const visited = new Set<PDFDict>();
+    const walk = (node: PDFDict | undefined) => {
+        if (!node || visited.has(node)) {
+            return;
+        }
+        visited.add(node);
+        const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+        for (let i = 0; i + 1 < (names?.size() || 0); i += 2) {
+            const name = names!.lookupMaybe(i, PDFString, PDFHexString);
+            if (name) {
+                add(name.decodeText(), names!.get(i + 1));
+            }
+        }
+        const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+        for (let i = 0; i < (kids?.size() || 0); i++) {
+            walk(kids!.lookupMaybe(i, PDFDict));
+        }
+    };
+    walk(doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict));
+    return destinations;
+}
+
+// bookmarks for the headings, for chrome versions that ignore generateDocumentOutline, the pdf is returned as it is when
+// chrome wrote an outline and undefined when none of the headings has a destination
+async function addHeadingOutline(pdf: Buffer, headings: OutlineHeading[]): Promise<Buffer | undefined> {
+    const doc = await loadPdf(pdf);
+    if (doc.catalog.has(PDFName.of('Outlines'))) {
+        return pdf;
+    }
+    const destinations = namedDestinations(doc);
+    const roots: OutlineNode[] = [];
+    // the enclosing headings of the next one, a heading nests in the closest one of a lower level
+    const parents: Array<{ level: number, node: OutlineNode }> = [];
+    for (const heading of headings) {
+        const destination = destinations.get(heading.id);
+        if (!destination) {
+            continue;
+        }
+        const node: OutlineNode = {title: heading.title, page: destination.page, top: destination.top, children: []};
+        while (parents.length > 0 && parents[parents.length - 1].level >= heading.level) {
+            parents.pop();
+        }
+        (parents.length > 0 ? parents[parents.length - 1].node.children : roots).push(node);
+        parents.push({level: heading.level, node});
+    }
+    if (roots.length === 0) {
+        return headings.length > 0 ? undefined : pdf;
+    }
+    writeOutline(doc, roots);
+    return Buffer.from(await doc.save());
+}
+
+function writeOutline(doc: PDFDocument, nodes: OutlineNode[]) {
+    if (nodes.length === 0) {
+        return;
+    }
+    const outlinesRef = doc.context.nextRef();
+    const count = writeOutlineItems(doc, nodes, outlinesRef);
+    doc.context.assign(outlinesRef, doc.context.obj({Type: 'Outlines'}));
+    const outlines = doc.context.lookup(outlinesRef, PDFDict);
+    outlines.set(PDFName.of('First'), count.first);
+    outlines.set(PDFName.of('Last'), count.last);
+    outlines.set(PDFName.of('Count'), PDFNumber.of(count.total));
+    doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+    doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+}
+
+function writeOutlineItems(doc: PDFDocument, nodes: OutlineNode[], parent: PDFRef) {
+    const refs = nodes.map(() => doc.context.nextRef());
+    let total = 0;
+    nodes.forEach((node, i) => {
+        const item = doc.context.obj({
+            Title: PDFHexString.fromText(node.title),
+            Parent: parent,
+            Dest: [node.page, PDFName.of('XYZ'), PDFNull, node.top === undefined ? PDFNull : node.top, PDFNull],
+        });
+        if (i > 0) {
+            item.set(PDFName.of('Prev'), refs[i - 1]);
+        }
+        if (i < nodes.length - 1) {
+            item.set(PDFName.of('Next'), refs[i + 1]);
+        }
+        if (node.children.length > 0) {
+            const children = writeOutlineItems(doc, node.children, refs[i]);
+            item.set(PDFName.of('First'), children.first);
+            item.set(PDFName.of('Last'), children.last);
+            // negative count keeps the item collapsed
+            item.set(PDFName.of('Count'), PDFNumber.of(-children.total));
+        }
+        doc.context.assign(refs[i], item);
+        total++;
+    });
+    return {first: refs[0], last: refs[refs.length - 1], total};
+}
+
+export {PdfMetadata, MergeSection, OutlineHeading, addHeadingOutline, applyMetadata, applyLanguage, normalizePdf, countPages, mergePdfs, loadPdf};
@@ -0,0 +1,218 @@
+import crypto from "crypto";
+import {PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRawStream, PDFString} from "pdf-lib";
+import {OptionValidationError, PdfAConformanceError} from "./errors";
+import {srgbProfile} from "./icc";
+import {loadPdf} from "./pdf";
+
+// level b guarantees the visual appearance, level u additionally that all text can be extracted
+type PdfAConformance = 'PDF/A-2b' | 'PDF/A-2u' | 'PDF/A-3b' | 'PDF/A-3u';
+
+type PdfAViolationType = 'encryption' | 'fontNotEmbedded' | 'fontWithoutUnicode' | 'javascript';
+
+interface PdfAViolation {
+    type: PdfAViolationType;
+    message: string;
+    // 1-based
+    page?: number;
+}
+
+interface PdfAOptions {
+    // written to the Info dictionary and the XMP metadata when the document has no creation date
+    date: Date;
+}
+
+const conformances: PdfAConformance[] = ['PDF/A-2b', 'PDF/A-2u', 'PDF/A-3b', 'PDF/A-3u'];
+const fontFiles = ['FontFile', 'FontFile2', 'FontFile3'].map((key) => PDFName.of(key));
+// simple fonts with these encodings map to unicode without a ToUnicode cmap
+const unicodeEncodings = ['WinAnsiEncoding', 'MacRomanEncoding', 'StandardEncoding'].map((name) => PDFName.of(name));
+const profileName = 'sRGB IEC61966-2.1';
+
+function parseConformance(value: string) {
+    const match = conformances.includes(value as PdfAConformance) && value.match(/^PDF\/A-(\d)([bu])$/);
+    if (!match) {
+        throw new OptionValidationError('pdfa', value, `expected one of ${conformances.join(', ')}`);
+    }
+    return {part: Number(match[1]), level: match[2]};
+}
+
+function name(object: unknown) {
+    return object instanceof PDFName ? object.decodeText() : undefined;
+}
+
+function fontViolations(font: PDFDict, page: number, unicode: boolean): PdfAViolation[] {
+    const baseFont = name(font.lookup(PDFName.of('BaseFont'))) || 'unnamed font';
+    const subtype = name(font.lookup(PDFName.of('Subtype')));
+    const violations: PdfAViolation[] = [];
+    // glyphs of type 3 fonts are content streams of the document itself
+    if (subtype !== 'Type3') {
+        const descendant = subtype === 'Type0'
+            ? font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict)
+            : font;
+        const descriptor = descendant?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+        if (!descriptor || !fontFiles.some((key) => descriptor.has(key))) {
+            violations.push({type: 'fontNotEmbedded', message: `font ${baseFont} on page ${page} is not embedded`, page});
+        }
+    }
+    const encoding = font.lookup(PDFName.of('Encoding'));
+    const mapsToUnicode = font.has(PDFName.of('ToUnicode'))
+        || (subtype !== 'Type0' && subtype !== 'Type3' && unicodeEncodings.includes(encoding as PDFName));
+    if (unicode && !mapsToUnicode) {
+        violations.push({type: 'fontWithoutUnicode', message: `font ${baseFont} on page ${page} has no unicode mapping`, page});
+    }
+    return violations;
+}
+
+// fonts used by the page and the form xobjects it draws, each font is reported once
+function checkFonts(doc: PDFDocument, unicode: boolean): PdfAViolation[] {
+    const violations: PdfAViolation[] = [];
+    const visited = new Set<PDFDict>();
+    const walk = (resources: PDFDict | undefined, page: number) => {
+        if (!resources || visited.has(resources)) {
+            return;
+        }
+        visited.add(resources);
+        const fonts = resources.lookupMaybe(PDFName.of('Font'), PDFDict);
+        for (const key of fonts?.keys() || []) {
+            const font = fonts!.lookupMaybe(key, PDFDict);
+            if (font && !visited.has(font)) {
+                visited.add(font);
+                violations.push(...fontViolations(font, page, unicode));
+            }
+        }
+        const xObjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+        for (const key of xObjects?.keys() || []) {
+            const xObject = xObjects!.lookup(key);
+            if (xObject instanceof PDFRawStream && name(xObject.dict.lookup(PDFName.of('Subtype'))) === 'Form') {
+                walk(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), page);
+            }
+        }
+    };
+    doc.getPages().forEach((page, i) => walk(page.node.Resources(), i + 1));
+    return violations;
+}
+
+function checkJavaScript(doc: PDFDocument): PdfAViolation[] {
+    const names = doc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const openAction = doc.catalog.lookup(PDFName.of('OpenAction'));
+    const openScript = openAction instanceof PDFDict && name(openAction.lookup(PDFName.of('S'))) === 'JavaScript';
+    if (names?.has(PDFName.of('JavaScript')) || openScript) {
+        return [{type: 'javascript', message: 'the document contains JavaScript'}];
+    }
+    return [];
+}
+
+// everything that can't be fixed without changing how the document looks
+function validate(doc: PDFDocument, level: string): PdfAViolation[] {
+    const violations: PdfAViolation[] = [];
+    if (doc.context.trailerInfo.Encrypt) {
+        violations.push({type: 'encryption', message: 'the document is encrypted'});
+    }
+    violations.push(...checkFonts(doc, level === 'u'));
+    violations.push(...checkJavaScript(doc));
+    return violations;
+}
+
+// annotations have to be printed and may not be hidden
+function fixAnnotations(doc: PDFDocument) {
+    const hidden = 1 | 2 | 32;
+    for (const page of doc.getPages()) {
+        const annotations = page.node.Annots();
+        for (let i = 0; i < (annotations?.size() || 0); i++) {
+            const annotation = annotations!.lookupMaybe(i, PDFDict);
+            if (!annotation || name(annotation.lookup(PDFName.of('Subtype'))) === 'Popup') {
+                continue;
+            }
+            const flags = annotation.lookupMaybe(PDFName.of('F'), PDFNumber)?.asNumber() || 0;
+            annotation.set(PDFName.of('F'), PDFNumber.of((flags | 4) & ~hidden));
+        }
+    }
+}
+
+function escapeXml(text: string) {
+    return text.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function xmpDate(date: Date) {
+    return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// the XMP packet has to repeat every Info dictionary entry it has an equivalent for
+function xmpMetadata(doc: PDFDocument, part: number, level: string, created: Date, modified: Date) {
+    const properties = [
+        `<pdfaid:part>${part}</pdfaid:part>`,
+        `<pdfaid:conformance>${level.toUpperCase()}</pdfaid:conformance>`,
+        '<dc:format>application/pdf</dc:format>',
+        `<xmp:CreateDate>${xmpDate(created)}</xmp:CreateDate>`,
+        `<xmp:ModifyDate>${xmpDate(modified)}</xmp:ModifyDate>`,
+    ];
+    const alt = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+    const entries: Array<[string | undefined, (value: string) => string]> = [
+        [doc.getTitle(), (value) => `<dc:title>${alt(value)}</dc:title>`],
+        [doc.getAuthor(), (value) => `<dc:creator><rdf:Seq><rdf:li>${escapeXml(value)}</rdf:li></rdf:Seq></dc:creator>`],
+        [doc.getSubject(), (value) => `<dc:description>${alt(value)}</dc:description>`],
+        [doc.getKeywords(), (value) => `<pdf:Keywords>${escapeXml(value)}</pdf:Keywords>`],
+        [doc.getProducer(), (value) => `<pdf:Producer>${escapeXml(value)}</pdf:Producer>`],
+        [doc.getCreator(), (value) => `<xmp:CreatorTool>${escapeXml(value)}</xmp:CreatorTool>`],
+    ];
+    for (const [value, property] of entries) {
+        if (value !== undefined) {
+            properties.push(property(value));
+        }
+    }
+    return `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about=""
+    xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+${properties.map((property) => `    ${property}`).join('\n')}
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+function addOutputIntent(doc: PDFDocument) {
+    const {context} = doc;
+    const profile = context.register(context.flateStream(srgbProfile(), {N: 3}));
+    const outputIntent = context.obj({
+        Type: 'OutputIntent',
+        S: 'GTS_PDFA1',
+        OutputConditionIdentifier: PDFString.of(profileName),
+        Info: PDFString.of(profileName),
+        RegistryName: PDFString.of('http://www.color.org'),
+        DestOutputProfile: profile,
+    });
+    doc.catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]));
+}
+
+// adds what PDF/A requires on top of chrome's output, throws with a report of everything that can't be fixed
+async function convertToPdfA(pdf: Buffer, conformance: PdfAConformance, options: PdfAOptions): Promise<Buffer> {
+    const {part, level} = parseConformance(conformance);
+    const doc = await loadPdf(pdf);
+    const violations = validate(doc, level);
+    if (violations.length > 0) {
+        throw new PdfAConformanceError(conformance, violations);
+    }
+    fixAnnotations(doc);
+    addOutputIntent(doc);
+
+    // rewritten so the Info dictionary and the XMP packet use the same dates
+    const created = doc.getCreationDate() || options.date;
+    const modified = doc.getModificationDate() || created;
+    doc.setCreationDate(created);
+    doc.setModificationDate(modified);
+    const xmp = Buffer.from(xmpMetadata(doc, part, level, created, modified), 'utf-8');
+    const metadata = doc.context.stream(xmp, {Type: 'Metadata', Subtype: 'XML'});
+    doc.catalog.set(PDFName.of('Metadata'), doc.context.register(metadata));
+
+    if (!doc.context.trailerInfo.ID) {
+        const id = PDFHexString.of(crypto.createHash('md5').update(pdf).digest('hex'));
+        doc.context.trailerInfo.ID = doc.context.obj([id, id]);
+    }
+    return Buffer.from(await doc.save());
+}
+
+export {PdfAConformance, PdfAViolation, PdfAViolationType, PdfAOptions, parseConformance, convertToPdfA};
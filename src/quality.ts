@@ -0,0 +1,112 @@
+import CDP from "chrome-remote-interface";
+import {QualityGateError} from "./errors";
+import {consoleEvent, exceptionEvent} from "./events";
+import {globToRegExp} from "./network";
+
+// conditions that make a render fail instead of printing whatever is on screen
+interface QualityGates {
+    // uncaught exceptions thrown by the page
+    failOnPageError?: boolean;
+    failOnConsoleError?: boolean;
+    // responses with status >= 400 and requests that failed, restricted to urls matching the given patterns
+    failOnRequestError?: boolean | string[];
+    minPages?: number;
+    maxPages?: number;
+}
+
+type QualityViolationType = 'pageError' | 'consoleError' | 'requestFailed' | 'pageCount';
+
+interface QualityViolation {
+    type: QualityViolationType;
+    message: string;
+    url?: string;
+    status?: number;
+}
+
+// requests failing because of these were refused on purpose, e.g. by blockUrls, or stopped by the page itself
+const ignoredFailures = ['net::ERR_ABORTED', 'net::ERR_BLOCKED_BY_CLIENT'];
+
+class QualityGate {
+    client: CDP.Client;
+    gates: QualityGates;
+    violations: QualityViolation[];
+    urlPatterns: RegExp[] | undefined;
+
+    constructor(client: CDP.Client, gates: QualityGates) {
+        this.client = client;
+        this.gates = gates;
+        this.violations = [];
+        this.urlPatterns = Array.isArray(gates.failOnRequestError) ? gates.failOnRequestError.map(globToRegExp) : undefined;
+    }
+
+    // has to run before navigation, so the initial page load is watched
+    async enable() {
+        const {Runtime, Network} = this.client;
+        if (this.gates.failOnPageError) {
+            Runtime.on('exceptionThrown', (event) => {
+                const {message, url} = exceptionEvent(event);
+                this.violations.push({type: 'pageError', message: `Uncaught ${message}`, url});
+            });
+        }
+        if (this.gates.failOnConsoleError) {
+            Runtime.on('consoleAPICalled', (event) => {
+                if (event.type !== 'error') {
+                    return;
+                }
+                this.violations.push({type: 'consoleError', message: `console.error: ${consoleEvent(event).text}`});
+            });
+        }
+        if (this.gates.failOnRequestError) {
+            await Network.enable({});
+            const urls = new Map<string, string>();
+            Network.on('requestWillBeSent', (e) => {
+                urls.set(e.requestId, e.request.url);
+            });
+            Network.on('responseReceived', (e) => {
+                const {url, status} = e.response;
+                if (status >= 400 && this.watched(url)) {
+                    this.violations.push({type: 'requestFailed', message: `${url} responded with ${status}`, url, status});
+                }
+            });
+            Network.on('loadingFailed', (e) => {
+                const url = urls.get(e.requestId);
+                if (url === undefined || e.canceled || e.blockedReason || ignoredFailures.includes(e.errorText) || !this.watched(url)) {
+                    return;
+                }
+                this.violations.push({type: 'requestFailed', message: `${url} failed: ${e.errorText}`, url});
+            });
+        }
+    }
+
+    watched(url: string) {
+        return !this.urlPatterns || this.urlPatterns.some((pattern) => pattern.test(url));
+    }
+
+    // violations found outside of the page, e.g. in the printed pdf
+    add(violations: QualityViolation[]) {
+        this.violations.push(...violations);
+    }
+
+    // throws with everything collected so far
+    check() {
+        if (this.violations.length > 0) {
+            throw new QualityGateError(this.violations);
+        }
+    }
+}
+
+function hasPageCountGate(gates: QualityGates) {
+    return gates.minPages !== undefined || gates.maxPages !== undefined;
+}
+
+function pageCountViolations(pages: number, gates: QualityGates): QualityViolation[] {
+    if (gates.minPages !== undefined && pages < gates.minPages) {
+        return [{type: 'pageCount', message: `expected at least ${gates.minPages} pages, got ${pages}`}];
+    }
+    if (gates.maxPages !== undefined && pages > gates.maxPages) {
+        return [{type: 'pageCount', message: `expected at most ${gates.maxPages} pages, got ${pages}`}];
+    }
+    return [];
+}
+
+export {QualityGates, QualityViolation, QualityViolationType, QualityGate, hasPageCountGate, pageCountViolations};
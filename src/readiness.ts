@@ -0,0 +1,142 @@
+import CDP from "chrome-remote-interface";
+import {ReadinessTimeoutError} from "./errors";
+
+type ReadinessStrategy =
+    { type: 'event', name: string, timeout?: number } |
+    { type: 'selector', selector: string, timeout?: number, pollInterval?: number } |
+    { type: 'expression', expression: string, timeout?: number, pollInterval?: number } |
+    { type: 'networkIdle', idleTime: number, timeout?: number } |
+    { type: 'fonts', timeout?: number };
+
+const defaultPollInterval = 100;
+
+function describeStrategy(strategy: ReadinessStrategy) {
+    switch (strategy.type) {
+        case 'event':
+            return `window event "${strategy.name}"`;
+        case 'selector':
+            return `selector "${strategy.selector}"`;
+        case 'expression':
+            return `expression "${strategy.expression}" to become truthy`;
+        case 'networkIdle':
+            return `${strategy.idleTime}ms of network idle`;
+        case 'fonts':
+            return 'document.fonts.ready';
+    }
+}
+
+function wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+class ReadinessWaiter {
+    client: CDP.Client;
+    strategies: ReadinessStrategy[];
+    defaultTimeout: number;
+    pendingRequests: Set<string>;
+    lastNetworkActivity: number;
+
+    constructor(client: CDP.Client, strategies: ReadinessStrategy[], defaultTimeout: number) {
+        this.client = client;
+        this.strategies = strategies;
+        this.defaultTimeout = defaultTimeout;
+        this.pendingRequests = new Set();
+        this.lastNetworkActivity = Date.now();
+    }
+
+    // has to run before navigation, so requests issued by the initial page load are tracked
+    async prepare() {
+        if (!this.strategies.some((strategy) => strategy.type === 'networkIdle')) {
+            return;
+        }
+        const {Network} = this.client;
+        await Network.enable({});
+        Network.on('requestWillBeSent', (e) => {
+            this.pendingRequests.add(e.requestId);
+            this.lastNetworkActivity = Date.now();
+        });
+        const finished = (e: { requestId: string }) => {
+            this.pendingRequests.delete(e.requestId);
+            this.lastNetworkActivity = Date.now();
+        };
+        Network.on('loadingFinished', finished);
+        Network.on('loadingFailed', finished);
+    }
+
+    async wait() {
+        await Promise.all(this.strategies.map((strategy) => this.waitFor(strategy)));
+    }
+
+    async waitFor(strategy: ReadinessStrategy) {
+        const timeout = strategy.timeout ?? this.defaultTimeout;
+        let timer: NodeJS.Timeout | undefined;
+        let timedOut = false;
+        const expired = new Promise<never>((resolve, reject) => {
+            timer = setTimeout(() => {
+                timedOut = true;
+                reject(new ReadinessTimeoutError(strategy, describeStrategy(strategy), timeout));
+            }, timeout);
+        });
+        try {
+            await Promise.race([this.check(strategy, () => timedOut), expired]);
+        } finally {
+            clearTimeout(timer!);
+        }
+    }
+
+    async check(strategy: ReadinessStrategy, isCancelled: () => boolean) {
+        switch (strategy.type) {
+            case 'event':
+                await this.evaluate(`
+                    new Promise((resolve) => {
+                        window.addEventListener(${JSON.stringify(strategy.name)}, () => resolve(true), { once: true });
+                    })`);
+                return;
+            case 'selector':
+                await this.poll(`!!document.querySelector(${JSON.stringify(strategy.selector)})`, isCancelled, strategy.pollInterval);
+                return;
+            case 'expression':
+                await this.poll(strategy.expression, isCancelled, strategy.pollInterval);
+                return;
+            case 'networkIdle':
+                while (!isCancelled()) {
+                    const idleFor = Date.now() - this.lastNetworkActivity;
+                    if (this.pendingRequests.size === 0 && idleFor >= strategy.idleTime) {
+                        return;
+                    }
+                    await wait(this.pendingRequests.size === 0 ? strategy.idleTime - idleFor : defaultPollInterval);
+                }
+                return;
+            case 'fonts':
+                await this.evaluate('document.fonts.ready.then(() => true)');
+                return;
+        }
+    }
+
+    async poll(expression: string, isCancelled: () => boolean, pollInterval = defaultPollInterval) {
+        while (!isCancelled()) {
+            try {
+                if (await this.evaluate(expression)) {
+                    return;
+                }
+            } catch (e) {
+                // the execution context may be replaced while the page is still navigating, just try again
+            }
+            await wait(pollInterval);
+        }
+    }
+
+    async evaluate(expression: string): Promise<unknown> {
+        const {result, exceptionDetails} = await this.client.Runtime.evaluate({
+            expression,
+            awaitPromise: true,
+            returnByValue: true,
+        });
+        if (exceptionDetails) {
+            throw new Error(`Evaluation of "${expression}" failed: ${exceptionDetails.exception?.description || exceptionDetails.text}`);
+        }
+        return result.value;
+    }
+}
+
+export {ReadinessStrategy, ReadinessWaiter, describeStrategy};
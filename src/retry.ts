@@ -0,0 +1,71 @@
+import {ChromeDisconnectedError, ChromeExitedError, NavigationError, ReadinessTimeoutError, RenderTimeoutError} from "./errors";
+
+// disconnect: chrome crashed or the connection to it was lost
+// timeout: the render or a readiness strategy timed out
+// navigation: the page failed to load, e.g. because of a network error
+type RetryableFailure = 'disconnect' | 'timeout' | 'navigation';
+
+interface RetryPolicy {
+    // attempts per job, including the first one
+    maxAttempts?: number;
+    // delay before the first retry in ms, multiplied by factor for every further one
+    backoff?: number;
+    factor?: number;
+    maxBackoff?: number;
+    retryOn?: RetryableFailure[];
+    // decides which failures are retried instead of retryOn
+    retryable?: (error: unknown) => boolean;
+}
+
+const defaultRetryPolicy: Required<Omit<RetryPolicy, 'retryable'>> = {
+    maxAttempts: 1,
+    backoff: 1000,
+    factor: 2,
+    maxBackoff: 30000,
+    retryOn: ['disconnect'],
+};
+
+const disconnectCodes = ['ECONNREFUSED', 'ECONNRESET', 'EPIPE'];
+
+function failureKind(error: unknown): RetryableFailure | undefined {
+    if (error instanceof RenderTimeoutError || error instanceof ReadinessTimeoutError) {
+        return 'timeout';
+    }
+    if (error instanceof NavigationError) {
+        return 'navigation';
+    }
+    if (error instanceof ChromeDisconnectedError || error instanceof ChromeExitedError) {
+        return 'disconnect';
+    }
+    const code = (error as NodeJS.ErrnoException | undefined)?.code;
+    if (code && disconnectCodes.includes(code)) {
+        return 'disconnect';
+    }
+    // pending commands fail with this when chrome-remote-interface loses the websocket
+    if (error instanceof Error && /WebSocket (connection closed|is not open)/i.test(error.message)) {
+        return 'disconnect';
+    }
+    return undefined;
+}
+
+function isRetryable(error: unknown, policy: RetryPolicy = {}): boolean {
+    if (policy.retryable) {
+        return policy.retryable(error);
+    }
+    const kind = failureKind(error);
+    return kind !== undefined && (policy.retryOn || defaultRetryPolicy.retryOn).includes(kind);
+}
+
+// delay before the given retry, counting from 1
+function retryDelay(policy: RetryPolicy = {}, retry: number): number {
+    const backoff = policy.backoff ?? defaultRetryPolicy.backoff;
+    const factor = policy.factor ?? defaultRetryPolicy.factor;
+    const maxBackoff = policy.maxBackoff ?? defaultRetryPolicy.maxBackoff;
+    return Math.min(backoff * Math.pow(factor, retry - 1), maxBackoff);
+}
+
+function maxAttempts(policy: RetryPolicy = {}): number {
+    return Math.max(1, policy.maxAttempts ?? defaultRetryPolicy.maxAttempts);
+}
+
+export {RetryPolicy, RetryableFailure, isRetryable, retryDelay, maxAttempts};
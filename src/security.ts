@@ -0,0 +1,361 @@
+import crypto from "crypto";
+import fs from "fs";
+import forge from "node-forge";
+import {
+    PDFArray,
+    PDFDict,
+    PDFDocument,
+    PDFHeader,
+    PDFHexString,
+    PDFName,
+    PDFNumber,
+    PDFObject,
+    PDFRawStream,
+    PDFStream,
+    PDFString,
+} from "pdf-lib";
+import {OptionValidationError} from "./errors";
+import {loadPdf} from "./pdf";
+
+// everything is allowed unless set to false, extraction for accessibility always is
+interface PdfPermissions {
+    print?: boolean;
+    copy?: boolean;
+    // editing, annotations, form filling and assembling pages
+    modify?: boolean;
+}
+
+interface PdfEncryption {
+    // needed to open the document, it opens without a password when omitted
+    userPassword?: string;
+    // lifts the permission restrictions, a random one is used when omitted, so nobody can
+    ownerPassword?: string;
+    permissions?: PdfPermissions;
+}
+
+// an RSA key with its certificate chain, either from a PKCS#12 file or from PEM files
+interface PdfSignature {
+    p12?: string;
+    key?: string;
+    cert?: string;
+    // of the PKCS#12 file or an encrypted PEM key
+    passphrase?: string;
+    reason?: string;
+    location?: string;
+    contactInfo?: string;
+}
+
+interface SecurityOptions {
+    encryption?: PdfEncryption;
+    signature?: PdfSignature;
+    // signing time
+    date: Date;
+}
+
+// permission bits of the P entry, numbered from 1 as in the spec
+const permissionBits: Record<keyof PdfPermissions, number[]> = {
+    print: [3, 12],
+    modify: [4, 6, 9, 11],
+    copy: [5],
+};
+
+// bytes reserved for the PKCS#7 container, enough for a key with a long certificate chain
+const signatureSize = 16384;
+// replaced by the actual byte range once the document has been written
+const byteRangePlaceholder = 9999999999;
+
+function bit(position: number) {
+    return 2 ** (position - 1);
+}
+
+function permissionFlags(permissions: PdfPermissions = {}): number {
+    // reserved bits 7, 8 and 13-32 have to be set, as does 10 (extraction for accessibility)
+    let flags = 0xfffff0c0 + bit(10);
+    for (const [permission, bits] of Object.entries(permissionBits) as Array<[keyof PdfPermissions, number[]]>) {
+        if (permissions[permission] !== false) {
+            flags += bits.reduce((sum, position) => sum + bit(position), 0);
+        }
+    }
+    // P is a signed 32 bit integer
+    return flags | 0;
+}
+
+function aes(algorithm: string, key: Buffer, iv: Buffer | null, data: Buffer, padding = false) {
+    const cipher = crypto.createCipheriv(algorithm, key, iv);
+    cipher.setAutoPadding(padding);
+    return Buffer.concat([cipher.update(data), cipher.final()]);
+}
+
+// algorithm 2.B of ISO 32000-2, the password hash of revision 6
+function passwordHash(password: Buffer, salt: Buffer, userKey: Buffer): Buffer {
+    let hash = crypto.createHash('sha256').update(Buffer.concat([password, salt, userKey])).digest();
+    for (let round = 0; ; round++) {
+        const block = Buffer.concat([password, hash, userKey]);
+        const encrypted = aes('aes-128-cbc', hash.subarray(0, 16), hash.subarray(16, 32), Buffer.concat(Array(64).fill(block)));
+        const remainder = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+        hash = crypto.createHash(['sha256', 'sha384', 'sha512'][remainder]).update(encrypted).digest();
+        if (round >= 63 && encrypted[encrypted.length - 1] <= round - 31) {
+            return hash.subarray(0, 32);
+        }
+    }
+}
+
+function passwordBytes(password: string) {
+    return Buffer.from(password, 'utf-8').subarray(0, 127);
+}
+
+// standard security handler, revision 6 (AES-256)
+function encryptionDictionary(doc: PDFDocument, encryption: PdfEncryption, fileKey: Buffer) {
+    const userPassword = passwordBytes(encryption.userPassword || '');
+    const ownerPassword = encryption.ownerPassword === undefined
+        ? crypto.randomBytes(32)
+        : passwordBytes(encryption.ownerPassword);
+    const zeroIv = Buffer.alloc(16);
+
+    const [userValidationSalt, userKeySalt] = [crypto.randomBytes(8), crypto.randomBytes(8)];
+    const u = Buffer.concat([passwordHash(userPassword, userValidationSalt, Buffer.alloc(0)), userValidationSalt, userKeySalt]);
+    const ue = aes('aes-256-cbc', passwordHash(userPassword, userKeySalt, Buffer.alloc(0)), zeroIv, fileKey);
+
+    const [ownerValidationSalt, ownerKeySalt] = [crypto.randomBytes(8), crypto.randomBytes(8)];
+    const o = Buffer.concat([passwordHash(ownerPassword, ownerValidationSalt, u), ownerValidationSalt, ownerKeySalt]);
+    const oe = aes('aes-256-cbc', passwordHash(ownerPassword, ownerKeySalt, u), zeroIv, fileKey);
+
+    const p = permissionFlags(encryption.permissions);
+    const perms = Buffer.alloc(16, 0xff);
+    perms.writeInt32LE(p, 0);
+    perms.write('Tadb', 8, 'latin1');
+    crypto.randomBytes(4).copy(perms, 12);
+
+    const hex = (data: Buffer) => PDFHexString.of(data.toString('hex'));
+    return doc.context.obj({
+        Filter: 'Standard',
+        V: 5,
+        R: 6,
+        Length: 256,
+        CF: {StdCF: {AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32}},
+        StmF: 'StdCF',
+        StrF: 'StdCF',
+        O: hex(o),
+        U: hex(u),
+        OE: hex(oe),
+        UE: hex(ue),
+        P: p,
+        Perms: hex(aes('aes-256-ecb', fileKey, null, perms)),
+        EncryptMetadata: true,
+    });
+}
+
+// strings and streams are encrypted in place, skipped objects (the signature contents) are left as they are
+function encryptObject(object: PDFObject, encrypt: (data: Uint8Array) => Buffer, skip: Set<PDFObject>): PDFObject {
+    if (skip.has(object)) {
+        return object;
+    }
+    if (object instanceof PDFString || object instanceof PDFHexString) {
+        return PDFHexString.of(encrypt(object.asBytes()).toString('hex'));
+    }
+    if (object instanceof PDFArray) {
+        for (let i = 0; i < object.size(); i++) {
+            object.set(i, encryptObject(object.get(i), encrypt, skip));
+        }
+        return object;
+    }
+    if (object instanceof PDFDict) {
+        for (const [key, value] of object.entries()) {
+            object.set(key, encryptObject(value, encrypt, skip));
+        }
+        return object;
+    }
+    // streams created by pdf-lib, e.g. the ones normalizing a page's content, are encoded on demand
+    if (object instanceof PDFStream) {
+        encryptObject(object.dict, encrypt, skip);
+        return PDFRawStream.of(object.dict, encrypt(object.getContents()));
+    }
+    return object;
+}
+
+// the key, salts and IVs are random even for deterministic renders, anything derived from the content would let
+// the plaintext be guessed from them
+function encrypt(doc: PDFDocument, encryption: PdfEncryption, skip: Set<PDFObject>) {
+    const {context} = doc;
+    if (!context.trailerInfo.ID) {
+        const id = PDFHexString.of(crypto.randomBytes(16).toString('hex'));
+        context.trailerInfo.ID = context.obj([id, id]);
+    }
+    const fileKey = crypto.randomBytes(32);
+    const encryptObjectData = (data: Uint8Array) => {
+        const iv = crypto.randomBytes(16);
+        return Buffer.concat([iv, aes('aes-256-cbc', fileKey, iv, Buffer.from(data), true)]);
+    };
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+        context.assign(ref, encryptObject(object, encryptObjectData, skip));
+    }
+    // AES-256 came with extension level 8 of PDF 1.7
+    context.header = PDFHeader.forVersion(1, 7);
+    doc.catalog.set(PDFName.of('Extensions'), context.obj({ADBE: {BaseVersion: PDFName.of('1.7'), ExtensionLevel: 8}}));
+    context.trailerInfo.Encrypt = context.register(encryptionDictionary(doc, encryption, fileKey));
+}
+
+// an invisible signature field on the first page, the signature itself is filled in after saving
+function addSignatureField(doc: PDFDocument, signature: PdfSignature, date: Date): PDFHexString {
+    const {context} = doc;
+    const contents = PDFHexString.of('0'.repeat(signatureSize * 2));
+    const signatureDict = context.obj({
+        Type: 'Sig',
+        Filter: 'Adobe.PPKLite',
+        SubFilter: 'adbe.pkcs7.detached',
+        ByteRange: [0, byteRangePlaceholder, byteRangePlaceholder, byteRangePlaceholder],
+        Contents: contents,
+        M: PDFString.fromDate(date),
+    });
+    const text: Array<[string, string | undefined]> = [
+        ['Reason', signature.reason],
+        ['Location', signature.location],
+        ['ContactInfo', signature.contactInfo],
+    ];
+    for (const [key, value] of text) {
+        if (value !== undefined) {
+            signatureDict.set(PDFName.of(key), PDFHexString.fromText(value));
+        }
+    }
+
+    const page = doc.getPage(0);
+    const widget = context.register(context.obj({
+        Type: 'Annot',
+        Subtype: 'Widget',
+        FT: 'Sig',
+        T: PDFHexString.fromText('Signature1'),
+        // print and locked
+        F: 132,
+        Rect: [0, 0, 0, 0],
+        V: context.register(signatureDict),
+        P: page.ref,
+    }));
+    page.node.addAnnot(widget);
+
+    let acroForm = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    if (!acroForm) {
+        acroForm = context.obj({Fields: []});
+        doc.catalog.set(PDFName.of('AcroForm'), context.register(acroForm));
+    }
+    let fields = acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+    if (!fields) {
+        fields = context.obj([]);
+        acroForm.set(PDFName.of('Fields'), fields);
+    }
+    fields.push(widget);
+    // signatures exist, the document should only be changed by appending
+    acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+    return contents;
+}
+
+interface Credentials {
+    key: forge.pki.rsa.PrivateKey;
+    // the signer's certificate first
+    certificates: forge.pki.Certificate[];
+}
+
+function readCredentials(signature: PdfSignature): Credentials {
+    const option = signature.p12 !== undefined ? 'p12' : 'key';
+    const file = signature.p12 !== undefined ? signature.p12 : signature.key;
+    let key: forge.pki.rsa.PrivateKey | undefined;
+    let certificates: forge.pki.Certificate[] = [];
+    try {
+        if (signature.p12 !== undefined) {
+            const der = forge.asn1.fromDer(fs.readFileSync(signature.p12).toString('binary'));
+            const p12 = forge.pkcs12.pkcs12FromAsn1(der, signature.passphrase || '');
+            const keyBags = [
+                ...p12.getBags({bagType: forge.pki.oids.pkcs8ShroudedKeyBag})[forge.pki.oids.pkcs8ShroudedKeyBag] || [],
+                ...p12.getBags({bagType: forge.pki.oids.keyBag})[forge.pki.oids.keyBag] || [],
+            ];
+            key = keyBags[0]?.key as forge.pki.rsa.PrivateKey | undefined;
+            const certBags = p12.getBags({bagType: forge.pki.oids.certBag})[forge.pki.oids.certBag] || [];
+            certificates = certBags.map((bag) => bag.cert!).filter((cert) => cert);
+        } else {
+            if (signature.key === undefined || signature.cert === undefined) {
+                throw new Error('either p12 or both key and cert are needed');
+            }
+            const pem = fs.readFileSync(signature.key, 'utf-8');
+            key = (signature.passphrase === undefined
+                ? forge.pki.privateKeyFromPem(pem)
+                : forge.pki.decryptRsaPrivateKey(pem, signature.passphrase)) as forge.pki.rsa.PrivateKey | undefined;
+            certificates = forge.pem.decode(fs.readFileSync(signature.cert, 'utf-8'))
+                .filter((message) => message.type === 'CERTIFICATE')
+                .map((message) => forge.pki.certificateFromAsn1(forge.asn1.fromDer(message.body)));
+        }
+    } catch (e) {
+        throw new OptionValidationError(`signature.${option}`, file, e instanceof Error ? e.message : String(e));
+    }
+    if (!key || !key.n) {
+        throw new OptionValidationError(`signature.${option}`, file, 'no RSA private key found');
+    }
+    // the signer's certificate goes first, the rest of the chain is embedded as it is
+    const signer = certificates.findIndex((cert) => (cert.publicKey as forge.pki.rsa.PublicKey).n?.equals(key!.n));
+    if (signer === -1) {
+        throw new OptionValidationError(`signature.${option}`, file, 'no certificate matches the private key');
+    }
+    certificates.unshift(...certificates.splice(signer, 1));
+    return {key, certificates};
+}
+
+// detached PKCS#7 signature of the document without its contents placeholder
+function sign(pdf: Buffer, {key, certificates}: Credentials, date: Date): Buffer {
+    const placeholder = Buffer.from(`<${'0'.repeat(signatureSize * 2)}>`, 'latin1');
+    const start = pdf.indexOf(placeholder);
+    const end = start + placeholder.length;
+    const byteRangeText = `[ 0 ${byteRangePlaceholder} ${byteRangePlaceholder} ${byteRangePlaceholder} ]`;
+    const byteRangeStart = pdf.indexOf(byteRangeText, 0, 'latin1');
+    if (start === -1 || byteRangeStart === -1) {
+        throw new Error('Signature placeholder not found in the generated pdf');
+    }
+    const byteRange = `[ 0 ${start} ${end} ${pdf.length - end}`;
+    pdf.write(byteRange.padEnd(byteRangeText.length - 1) + ']', byteRangeStart, 'latin1');
+
+    const p7 = forge.pkcs7.createSignedData();
+    p7.content = forge.util.createBuffer(Buffer.concat([pdf.subarray(0, start), pdf.subarray(end)]).toString('binary'));
+    for (const certificate of certificates) {
+        p7.addCertificate(certificate);
+    }
+    p7.addSigner({
+        key,
+        certificate: certificates[0],
+        digestAlgorithm: forge.pki.oids.sha256,
+        authenticatedAttributes: [
+            {type: forge.pki.oids.contentType, value: forge.pki.oids.data},
+            {type: forge.pki.oids.messageDigest},
+            // forge accepts a date here, the typings only know strings
+            {type: forge.pki.oids.signingTime, value: date as unknown as string},
+        ],
+    });
+    p7.sign({detached: true});
+    const container = Buffer.from(forge.asn1.toDer(p7.toAsn1()).getBytes(), 'binary').toString('hex');
+    if (container.length > signatureSize * 2) {
+        throw new Error(`Signature needs ${container.length / 2} bytes, only ${signatureSize} are reserved`);
+    }
+    pdf.write(container, start + 1, 'latin1');
+    return pdf;
+}
+
+// encrypts and signs the document, the signature covers the encrypted bytes
+async function securePdf(pdf: Buffer, options: SecurityOptions): Promise<Buffer> {
+    const doc = await loadPdf(pdf);
+    const skip = new Set<PDFObject>();
+    let credentials: Credentials | undefined;
+    if (options.signature) {
+        credentials = readCredentials(options.signature);
+        skip.add(addSignatureField(doc, options.signature, options.date));
+    }
+    if (options.encryption) {
+        // adding the signature normalized its page, the others are normalized before their objects are encrypted
+        doc.getPages().forEach((page) => page.node.normalize());
+        encrypt(doc, options.encryption, skip);
+    }
+    const objects = doc.context.largestObjectNumber;
+    // strings inside object streams must not be encrypted on their own, so every object is written as it is
+    const secured = Buffer.from(await doc.save({useObjectStreams: false, updateFieldAppearances: false}));
+    if (options.encryption && doc.context.largestObjectNumber !== objects) {
+        throw new Error('Objects were added to the pdf after it was encrypted, they would be written unencrypted');
+    }
+    return credentials ? sign(secured, credentials, options.date) : secured;
+}
+
+export {PdfPermissions, PdfEncryption, PdfSignature, SecurityOptions, securePdf, permissionFlags};
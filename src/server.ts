@@ -0,0 +1,282 @@
+import {IncomingMessage, ServerResponse} from "http";
+import {AddressInfo} from "net";
+import {Readable} from "stream";
+import {Protocol} from "devtools-protocol";
+
+import http from "http";
+import {finished, pipeline} from "stream";
+import {promisify} from "util";
+import {ConstructorOptions, OutputFormat, RenderOptions, RenderPDF} from "./index";
+import {OptionValidationError} from "./errors";
+
+interface RenderServerOptions extends ConstructorOptions {
+    maxBodySize?: number;
+}
+
+interface RenderRequestBody {
+    url?: string;
+    html?: string;
+    baseUrl?: string;
+    options?: ConstructorOptions;
+    pdfOptions?: RenderOptions;
+}
+
+// options that control the shared chrome process, access the server's disk, weaken its network policy or can't be sent
+// as JSON can't be set per request
+const serverOnlyOptions: Array<keyof ConstructorOptions> = [
+    'chromeBinary',
+    'chromeOptions',
+    'remoteHost',
+    'remotePort',
+    'windowSize',
+    'traceFilename',
+    'cookieJar',
+    'networkPolicy',
+    'allowHosts',
+    'headerTemplateFile',
+    'footerTemplateFile',
+    'inlineTemplateAssets',
+    'exportStorageState',
+    'signature',
+    'logger',
+    'beforePrint',
+];
+
+// limits a request may lower but not lift, renders are serialized and a slow one holds up every other client
+const cappedOptions: Array<'renderTimeout' | 'jsTimeBudget' | 'waitTimeout' | 'animationTimeBudget'> = [
+    'renderTimeout',
+    'jsTimeBudget',
+    'waitTimeout',
+    'animationTimeBudget',
+];
+
+const contentTypes: Record<OutputFormat, string> = {
+    pdf: 'application/pdf',
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+class RenderServer {
+    options: RenderServerOptions;
+    renderer: RenderPDF;
+    server: http.Server;
+    inFlight: Set<Promise<void>>;
+    queue: Promise<unknown>;
+    closing: boolean;
+
+    constructor(options?: RenderServerOptions) {
+        this.options = {
+            maxBodySize: 10 * 1024 * 1024,
+            ...options,
+        };
+        this.renderer = new RenderPDF(this.options);
+        this.server = http.createServer((req, res) => this.handle(req, res));
+        this.inFlight = new Set();
+        this.queue = Promise.resolve();
+        this.closing = false;
+    }
+
+    async listen(port: number, host?: string): Promise<AddressInfo> {
+        await this.renderer.start();
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+        const address = this.server.address() as AddressInfo;
+        this.renderer.log(`Listening on ${address.address}:${address.port}`);
+        return address;
+    }
+
+    async close() {
+        if (this.closing) {
+            return;
+        }
+        this.closing = true;
+        this.renderer.log(`Shutting down, waiting for ${this.inFlight.size} render(s) to finish`);
+        const serverClosed = new Promise<void>((resolve) => this.server.close(() => resolve()));
+        while (this.inFlight.size > 0) {
+            await Promise.all(this.inFlight);
+        }
+        await this.renderer.close();
+        await serverClosed;
+    }
+
+    handle(req: IncomingMessage, res: ServerResponse) {
+        this.dispatch(req, res)
+            .catch((e) => {
+                // invalid options sent with the request are the client's fault
+                const status = e instanceof HttpError ? e.status : e instanceof OptionValidationError ? 400 : 500;
+                if (status === 500) {
+                    this.renderer.error('Request failed', {error: e});
+                }
+                if (!res.headersSent) {
+                    this.sendJson(res, status, {error: e instanceof Error ? e.message : String(e)});
+                } else {
+                    res.destroy();
+                }
+            });
+    }
+
+    async dispatch(req: IncomingMessage, res: ServerResponse) {
+        const path = (req.url || '/').split('?')[0];
+        if (path === '/health') {
+            if (req.method !== 'GET' && req.method !== 'HEAD') {
+                throw new HttpError(405, `Method ${req.method} not allowed`);
+            }
+            this.sendJson(res, this.closing ? 503 : 200, {
+                status: this.closing ? 'shutting-down' : 'ok',
+                inFlight: this.inFlight.size,
+            });
+            return;
+        }
+        if (path === '/render') {
+            if (req.method !== 'POST') {
+                throw new HttpError(405, `Method ${req.method} not allowed`);
+            }
+            if (this.closing) {
+                throw new HttpError(503, 'Server is shutting down');
+            }
+            const body = await this.readBody(req);
+            // close() only waits for renders in flight, not for requests that were still sending their body
+            if (this.closing) {
+                throw new HttpError(503, 'Server is shutting down');
+            }
+            // stop rendering when the client goes away before the pdf was sent
+            const controller = new AbortController();
+            res.on('close', () => {
+                if (!res.writableFinished) {
+                    controller.abort();
+                }
+            });
+            // the server's own options may set the format, not only the request's
+            const renderer = this.requestRenderer(body);
+            const output = await this.render(body, controller.signal, renderer);
+            res.writeHead(200, {'Content-Type': contentTypes[renderer.outputFormat()]});
+            await promisify(pipeline)(output, res);
+            return;
+        }
+        throw new HttpError(404, `Not found: ${path}`);
+    }
+
+    async readBody(req: IncomingMessage): Promise<RenderRequestBody> {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of req) {
+            size += chunk.length;
+            if (size > this.options.maxBodySize!) {
+                throw new HttpError(413, `Request body exceeds ${this.options.maxBodySize} bytes`);
+            }
+            chunks.push(chunk);
+        }
+        let body: RenderRequestBody;
+        try {
+            body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        } catch (e) {
+            throw new HttpError(400, 'Request body must be valid JSON');
+        }
+        if (typeof body !== 'object' || body === null) {
+            throw new HttpError(400, 'Request body must be a JSON object');
+        }
+        if (typeof body.url !== 'string' && typeof body.html !== 'string') {
+            throw new HttpError(400, 'Either "url" or "html" must be provided');
+        }
+        if (body.baseUrl !== undefined && typeof body.baseUrl !== 'string') {
+            throw new HttpError(400, '"baseUrl" must be a string');
+        }
+        const format = body.options?.format;
+        if (format !== undefined && !Object.prototype.hasOwnProperty.call(contentTypes, format)) {
+            throw new HttpError(400, `Unsupported format "${format}"`);
+        }
+        return body;
+    }
+
+    // every request gets its own renderer, attached to the chrome kept alive by this server
+    requestRenderer(body: RenderRequestBody): RenderPDF {
+        const options: ConstructorOptions = {...body.options};
+        for (const key of serverOnlyOptions) {
+            delete options[key];
+        }
+        // a storage state has to be sent inline, a file name would be read from the server's disk
+        if (typeof options.storageState === 'string') {
+            delete options.storageState;
+        }
+        for (const key of cappedOptions) {
+            const limit = this.renderer.options[key];
+            const value = options[key];
+            // 0 turns the render timeout off
+            if (limit && !(typeof value === 'number' && value > 0 && value <= limit)) {
+                options[key] = limit;
+            }
+        }
+        // the server's blocked urls stay blocked
+        const blockUrls = Array.isArray(options.blockUrls) ? options.blockUrls : [];
+        options.blockUrls = [...this.renderer.options.blockUrls || [], ...blockUrls];
+        // cookies set in the shared browser would be sent with the renders of later requests
+        if (this.renderer.options.isolation || (options.cookies || []).length > 0) {
+            options.isolation = true;
+        }
+        // templates sent with a request must not embed files from the server's disk
+        if (options.headerTemplate !== undefined || options.footerTemplate !== undefined) {
+            options.inlineTemplateAssets = false;
+        }
+        return this.renderer.withOptions(options);
+    }
+
+    async render(body: RenderRequestBody, signal?: AbortSignal, renderer = this.requestRenderer(body)): Promise<Readable> {
+        const source = typeof body.url === 'string' ? body.url : {html: body.html!, baseUrl: body.baseUrl};
+        // the renderer decides how the pdf is transferred, a stream handle can't be decoded as base64
+        const pdfOptions: Protocol.Page.PrintToPDFRequest = {...body.pdfOptions};
+        delete pdfOptions.transferMode;
+
+        // renders share a single page target, so they have to run one at a time
+        const format = renderer.outputFormat();
+        const result = this.queue.then(async () => {
+            if (format !== 'pdf') {
+                return Readable.from([await renderer.renderScreenshot(source, format, {signal})]);
+            }
+            return renderer.renderPdfStream(source, {
+                ...renderer.generatePdfOptions(),
+                ...pdfOptions,
+            }, {signal});
+        });
+        // the tab is busy until the pdf has been transferred completely
+        this.queue = result.then(
+            (stream) => new Promise((resolve) => finished(stream, () => resolve(undefined))),
+            () => undefined,
+        );
+
+        const done = this.queue.then(() => {
+            this.inFlight.delete(done);
+        });
+        this.inFlight.add(done);
+        return result;
+    }
+
+    sendJson(res: ServerResponse, status: number, body: unknown) {
+        const data = JSON.stringify(body);
+        res.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(data),
+        });
+        res.end(data);
+    }
+}
+
+function createRenderServer(options?: RenderServerOptions) {
+    return new RenderServer(options);
+}
+
+export {RenderServer, RenderServerOptions, RenderRequestBody, createRenderServer};
@@ -0,0 +1,114 @@
+import fs from "fs";
+import CDP from "chrome-remote-interface";
+import {Protocol} from "devtools-protocol";
+import {OptionValidationError} from "./errors";
+
+interface OriginStorage {
+    origin: string;
+    localStorage: Array<{ name: string, value: string }>;
+}
+
+// cookies and localStorage of an isolated context, the same shape playwright uses for its storage state files
+interface StorageState {
+    cookies: Protocol.Network.CookieParam[];
+    origins: OriginStorage[];
+}
+
+// set in sessionStorage, which isn't part of the exported state, once an origin has been seeded
+const seededFlag = '__renderPdfStorageSeeded';
+
+// accepts a state or the name of a JSON file holding one
+function readStorageState(value: StorageState | string): StorageState {
+    let state: unknown = value;
+    if (typeof value === 'string') {
+        try {
+            state = JSON.parse(fs.readFileSync(value, 'utf-8'));
+        } catch (e) {
+            throw new OptionValidationError('storageState', value, e instanceof Error ? e.message : String(e));
+        }
+    }
+    const {cookies = [], origins = []} = (state || {}) as Partial<StorageState>;
+    if (!Array.isArray(cookies) || !Array.isArray(origins)
+        || !origins.every((entry) => typeof entry?.origin === 'string' && Array.isArray(entry.localStorage))) {
+        throw new OptionValidationError('storageState', value, 'expected {cookies: [...], origins: [{origin, localStorage: [{name, value}]}]}');
+    }
+    return {cookies, origins};
+}
+
+function writeStorageState(filename: string, state: StorageState) {
+    fs.writeFileSync(filename, JSON.stringify(state, null, 2));
+}
+
+// evaluated on every new document, fills localStorage before any script of the page runs. Each origin is seeded once
+// per tab, so what the page writes survives reloads and redirects back to the origin
+function seedLocalStorageScript(origins: OriginStorage[]) {
+    const entries: Record<string, Array<[string, string]>> = {};
+    for (const {origin, localStorage} of origins) {
+        entries[origin] = localStorage.map(({name, value}) => [name, value]);
+    }
+    return `(() => {
+    const entries = ${JSON.stringify(entries)}[location.origin];
+    if (!entries) {
+        return;
+    }
+    try {
+        if (sessionStorage.getItem(${JSON.stringify(seededFlag)}) !== null) {
+            return;
+        }
+        sessionStorage.setItem(${JSON.stringify(seededFlag)}, '1');
+        for (const [name, value] of entries) {
+            localStorage.setItem(name, value);
+        }
+    } catch (e) {
+    }
+})()`;
+}
+
+async function collectStorageState(
+    browser: CDP.Client,
+    browserContextId: string,
+    page: CDP.Client,
+    seeded: OriginStorage[],
+): Promise<StorageState> {
+    const {cookies} = await browser.Storage.getCookies({browserContextId});
+    const {result} = await page.Runtime.evaluate({
+        expression: `(() => {
+            try {
+                return {origin: location.origin, localStorage: Object.entries(localStorage).map(([name, value]) => ({name, value}))};
+            } catch (e) {
+                return null;
+            }
+        })()`,
+        returnByValue: true,
+    });
+    // origins the page didn't visit keep their seeded values
+    const origins = seeded.slice();
+    const visited = result.value as OriginStorage | null;
+    if (visited && visited.origin !== 'null') {
+        const index = origins.findIndex((entry) => entry.origin === visited.origin);
+        if (index === -1) {
+            origins.push(visited);
+        } else {
+            origins[index] = visited;
+        }
+    }
+    return {cookies: cookies.map(toCookieParam), origins};
+}
+
+function toCookieParam(cookie: Protocol.Network.Cookie): Protocol.Network.CookieParam {
+    const param: Protocol.Network.CookieParam = {
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path,
+        secure: cookie.secure,
+        httpOnly: cookie.httpOnly,
+        sameSite: cookie.sameSite,
+    };
+    if (!cookie.session) {
+        param.expires = cookie.expires;
+    }
+    return param;
+}
+
+export {StorageState, OriginStorage, readStorageState, writeStorageState, seedLocalStorageScript, collectStorageState};
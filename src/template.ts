@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import {fileURLToPath} from "url";
+import {OptionValidationError} from "./errors";
+
+type TemplateName = 'headerTemplate' | 'footerTemplate';
+
+interface TemplateOptions {
+    // directory relative asset paths are resolved against
+    dir: string;
+    variables: Record<string, string | number>;
+    inlineAssets: boolean;
+    defaultStyles: boolean;
+}
+
+// values chrome fills in, available as {{pageNumber}} etc. unless the caller passes its own
+const builtinVariables = ['date', 'title', 'url', 'pageNumber', 'totalPages'];
+
+// chrome lays out #header and #footer as flex rows with a tiny font, so templates are invisible without styles
+const defaultStyles = '<style>'
+    + '#header, #footer { font-size: 10px; -webkit-print-color-adjust: exact; }'
+    + '#header > *, #footer > * { flex: 1; }'
+    + '</style>';
+
+const mimeTypes: Record<string, string> = {
+    '.css': 'text/css',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf',
+    '.otf': 'font/otf',
+};
+
+function escapeHtml(value: string) {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function renderTemplate(name: TemplateName, template: string, options: TemplateOptions): string {
+    let html = template;
+    // assets are inlined before substitution, so variables can't point the template at other files
+    if (options.inlineAssets) {
+        html = inlineAssets(name, html, options.dir);
+    }
+    html = html.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, variable: string) => {
+        const value = options.variables[variable];
+        if (value !== undefined) {
+            return escapeHtml(String(value));
+        }
+        if (builtinVariables.includes(variable)) {
+            return `<span class="${variable}"></span>`;
+        }
+        // may as well be literal text of the template
+        return match;
+    });
+    return options.defaultStyles ? defaultStyles + html : html;
+}
+
+// chrome doesn't load resources referenced by header and footer templates, so they are embedded as data uris
+function inlineAssets(name: TemplateName, html: string, dir: string): string {
+    html = html.replace(/<link\b[^>]*>/gi, (tag) => {
+        const href = attribute(tag, 'href');
+        if (!/\brel\s*=\s*["']?stylesheet\b/i.test(tag) || href === undefined || !isLocal(href)) {
+            return tag;
+        }
+        const file = resolveAsset(name, href, dir);
+        return `<style>${inlineCssUrls(name, fs.readFileSync(file, 'utf-8'), path.dirname(file))}</style>`;
+    });
+    html = html.replace(/(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi, (match, prefix: string, quote: string, src: string) => {
+        return isLocal(src) ? `${prefix}${quote}${dataUri(resolveAsset(name, src, dir))}${quote}` : match;
+    });
+    return inlineCssUrls(name, html, dir);
+}
+
+function inlineCssUrls(name: TemplateName, css: string, dir: string): string {
+    return css.replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (match, quote: string, url: string) => {
+        return isLocal(url) ? `url("${dataUri(resolveAsset(name, url, dir))}")` : match;
+    });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+    const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(["'])(.*?)\\1`, 'i'));
+    return match ? match[2] : undefined;
+}
+
+// relative paths and file:// urls, everything else is left to chrome
+function isLocal(url: string) {
+    return url.startsWith('file:') || !/^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(url);
+}
+
+function resolveAsset(name: TemplateName, url: string, dir: string): string {
+    const file = url.startsWith('file:') ? fileURLToPath(url) : path.resolve(dir, decodeURIComponent(url.split(/[?#]/)[0]));
+    if (!fs.existsSync(file)) {
+        throw new OptionValidationError(name, url, `asset not found at ${file}`);
+    }
+    return file;
+}
+
+function dataUri(file: string) {
+    const mimeType = mimeTypes[path.extname(file).toLowerCase()] || 'application/octet-stream';
+    return `data:${mimeType};base64,${fs.readFileSync(file).toString('base64')}`;
+}
+
+export {TemplateName, TemplateOptions, renderTemplate};